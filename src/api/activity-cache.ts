@@ -0,0 +1,212 @@
+/**
+ * Activity Cache - Per-session activity lists kept between reads
+ * Refreshes re-read only the last page of a session's activities, and
+ * sessions that had finished are served without any API call
+ */
+
+import { JulesAPIError, type JulesClient } from './jules-client.js';
+import type { Activity } from '../types/jules-api.js';
+
+/** Page size used when fetching activities */
+const PAGE_SIZE = 100;
+
+/**
+ * A session's cached activities.
+ */
+interface CachedActivities {
+  /** Every activity fetched so far, in API order */
+  activities: Activity[];
+  /** Token of the last page (undefined if it was the first page) */
+  lastPageToken?: string;
+  /** Number of activities before the last page */
+  lastPageOffset: number;
+  /** Whether the session had finished when it was fetched, so nothing new can arrive */
+  final: boolean;
+}
+
+/**
+ * A position in a session's activity stream.
+ */
+export interface ActivityPosition {
+  /** Resource name of the last activity seen */
+  name?: string;
+  /** Timestamp of the last activity seen */
+  timestamp?: string;
+}
+
+/**
+ * Encodes a position as an opaque cursor.
+ * @param position - The last activity seen.
+ * @returns The cursor.
+ */
+export function encodeActivityCursor(position: ActivityPosition): string {
+  return Buffer.from(
+    JSON.stringify({ a: position.name, t: position.timestamp })
+  ).toString('base64url');
+}
+
+/**
+ * Decodes a cursor. Besides cursors from encodeActivityCursor, an activity
+ * name (sessions/{id}/activities/{id}) or an ISO timestamp is accepted.
+ * A cursor without a name or timestamp points before the first activity.
+ * @param cursor - The cursor.
+ * @returns The position it points to.
+ * @throws Error if the cursor can't be decoded.
+ */
+export function decodeActivityCursor(cursor: string): ActivityPosition {
+  if (cursor.startsWith('sessions/')) {
+    return { name: cursor };
+  }
+  if (
+    /^\d{4}-\d{2}-\d{2}T/.test(cursor) &&
+    !Number.isNaN(Date.parse(cursor))
+  ) {
+    return { timestamp: cursor };
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    const optionalString = (value: unknown): boolean =>
+      value === undefined || typeof value === 'string';
+    if (
+      typeof decoded === 'object' &&
+      decoded !== null &&
+      optionalString(decoded.a) &&
+      optionalString(decoded.t)
+    ) {
+      return { name: decoded.a, timestamp: decoded.t };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid activity cursor: ${cursor}`);
+}
+
+/**
+ * Returns the activities after a position. The named activity is used
+ * when present; otherwise activities newer than the timestamp are returned.
+ * @param activities - The session's activities, in API order.
+ * @param position - The last activity seen (optional).
+ * @returns The activities after the position.
+ */
+export function activitiesAfter(
+  activities: Activity[],
+  position?: ActivityPosition
+): Activity[] {
+  if (!position) {
+    return activities;
+  }
+
+  const index = position.name
+    ? activities.findIndex((activity) => activity.name === position.name)
+    : -1;
+  if (index >= 0) {
+    return activities.slice(index + 1);
+  }
+
+  const after = position.timestamp ? Date.parse(position.timestamp) : NaN;
+  if (Number.isNaN(after)) {
+    return activities;
+  }
+  return activities.filter(
+    (activity) =>
+      activity.timestamp !== undefined && Date.parse(activity.timestamp) > after
+  );
+}
+
+/**
+ * Least-recently-used cache of session activities.
+ */
+export class ActivityCache {
+  private readonly entries: Map<string, CachedActivities> = new Map();
+  private readonly maxSessions: number;
+
+  /**
+   * Creates an instance of ActivityCache.
+   * The number of cached sessions comes from JULES_ACTIVITY_CACHE_SESSIONS (default: 50).
+   * @param client - The client for interacting with the Jules API.
+   */
+  constructor(private readonly client: JulesClient) {
+    this.maxSessions = Number(process.env.JULES_ACTIVITY_CACHE_SESSIONS || 50);
+  }
+
+  /**
+   * Gets a session's activities, fetching only what may have changed.
+   * @param sessionId - The ID of the session.
+   * @param final - Whether the session has finished (its activities are then cached for good).
+   * @returns Every activity of the session, in API order.
+   */
+  async getActivities(sessionId: string, final = false): Promise<Activity[]> {
+    let entry = this.entries.get(sessionId);
+
+    if (!entry?.final) {
+      try {
+        entry = await this.fetch(sessionId, entry);
+      } catch (error) {
+        // The saved page token may have expired; start over
+        const expired =
+          entry !== undefined &&
+          error instanceof JulesAPIError &&
+          error.statusCode === 400;
+        if (!expired) {
+          throw error;
+        }
+        entry = await this.fetch(sessionId);
+      }
+      entry.final = final;
+    }
+
+    // Re-insert to mark the session as most recently used
+    this.entries.delete(sessionId);
+    this.entries.set(sessionId, entry);
+    while (this.entries.size > Math.max(this.maxSessions, 1)) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+
+    return entry.activities;
+  }
+
+  /**
+   * Drops a session's activities (e.g., after it was deleted).
+   * @param sessionId - The ID of the session.
+   */
+  evict(sessionId: string): void {
+    this.entries.delete(sessionId);
+  }
+
+  /**
+   * Fetches a session's activities, starting at the cached last page if any.
+   * @param sessionId - The ID of the session.
+   * @param cached - The cached activities to extend (optional).
+   * @returns The refreshed cache entry.
+   */
+  private async fetch(
+    sessionId: string,
+    cached?: CachedActivities
+  ): Promise<CachedActivities> {
+    const activities = cached
+      ? cached.activities.slice(0, cached.lastPageOffset)
+      : [];
+    let pageToken = cached?.lastPageToken;
+
+    for (;;) {
+      const page = await this.client.listActivities(
+        sessionId,
+        PAGE_SIZE,
+        pageToken
+      );
+      if (!page.nextPageToken) {
+        const lastPageOffset = activities.length;
+        activities.push(...(page.activities ?? []));
+        return {
+          activities,
+          lastPageToken: pageToken,
+          lastPageOffset,
+          final: false,
+        };
+      }
+      activities.push(...(page.activities ?? []));
+      pageToken = page.nextPageToken;
+    }
+  }
+}
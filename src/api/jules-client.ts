@@ -3,37 +3,84 @@
  * Handles authentication, rate limiting, and type-safe API calls
  */
 
-import type {
-  Source,
-  ListSourcesResponse,
-  Session,
-  CreateSessionRequest,
-  ListSessionsResponse,
-  Activity,
-  ListActivitiesResponse,
-  SendMessageRequest,
+import { TokenBucket, type RateLimiterStats } from './rate-limiter.js';
+import { ResponseCache, type ResponseCacheStats } from './response-cache.js';
+import { delay } from '../utils/security.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type Source,
+  type ListSourcesResponse,
+  type Session,
+  type CreateSessionRequest,
+  type ListSessionsResponse,
+  type Activity,
+  type ListActivitiesResponse,
+  type SendMessageRequest,
 } from '../types/jules-api.js';
 
+/** Network error codes for requests that never reached the API */
+const CONNECT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
 /**
  * Custom error class for Jules API interactions.
  */
 export class JulesAPIError extends Error {
+  /** Number of HTTP attempts made before the error was thrown */
+  attempts = 1;
+
   /**
    * Creates an instance of JulesAPIError.
    * @param message - The error message.
    * @param statusCode - The HTTP status code returned by the API (optional).
    * @param response - The response body returned by the API (optional).
+   * @param retryAfterMs - The delay requested by a Retry-After header (optional).
    */
   constructor(
     message: string,
     public statusCode?: number,
-    public response?: unknown
+    public response?: unknown,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'JulesAPIError';
   }
 }
 
+/**
+ * Effective rate limits, retry settings and request counters of a JulesClient.
+ */
+export interface ClientDiagnostics {
+  /** Token bucket configuration and state */
+  rateLimit: RateLimiterStats;
+  /** Cache of sources and finished sessions */
+  cache: ResponseCacheStats;
+  /** Retry and timeout settings */
+  retry: {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    timeoutMs: number;
+  };
+  /** Counters since startup */
+  requests: {
+    /** HTTP attempts sent, including retries */
+    sent: number;
+    /** Attempts that were retried */
+    retried: number;
+    /** 429 responses received */
+    rateLimited: number;
+    /** Requests that failed after any retries */
+    failed: number;
+  };
+}
+
 /**
  * Client for interacting with the Google Jules REST API.
  */
@@ -42,6 +89,16 @@ export class JulesClient {
   private readonly apiKey: string;
   private readonly timeoutMs: number;
   private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly limiter: TokenBucket;
+  private readonly cache: ResponseCache;
+  private readonly stats: ClientDiagnostics['requests'] = {
+    sent: 0,
+    retried: 0,
+    rateLimited: 0,
+    failed: 0,
+  };
 
   /**
    * Creates an instance of JulesClient.
@@ -58,18 +115,35 @@ export class JulesClient {
     }
     this.timeoutMs = Number(process.env.JULES_API_TIMEOUT_MS || 15000);
     this.maxRetries = Number(process.env.JULES_API_MAX_RETRIES || 2);
+    this.retryBaseDelayMs = Number(process.env.JULES_API_RETRY_BASE_MS || 1000);
+    this.retryMaxDelayMs = Number(process.env.JULES_API_RETRY_MAX_MS || 30000);
+    this.limiter = new TokenBucket(
+      Number(process.env.JULES_API_RATE_LIMIT_RPM || 60),
+      Number(process.env.JULES_API_RATE_LIMIT_BURST || 10)
+    );
+    this.cache = new ResponseCache(
+      Number(process.env.JULES_API_CACHE_TTL_MS || 60000)
+    );
   }
 
   /**
-   * Generic HTTP request handler with authentication and error handling.
+   * Generic HTTP request handler with authentication, rate limiting and retries.
+   * Every attempt waits for a rate limiter token. 429, 5xx and network errors
+   * are retried with jittered exponential backoff; a Retry-After header on a
+   * 429 or 503 sets the minimum delay and pauses all other requests too.
+   * Requests that aren't idempotent are retried after a 429, a 5xx or a
+   * failure to connect, but not after a timeout or other network error,
+   * which may come after the API already created something.
    * @param endpoint - The API endpoint to call (relative to the base URL).
    * @param options - The fetch options (method, headers, body, etc.).
+   * @param idempotent - Whether repeating the request is harmless (default: true).
    * @returns A promise that resolves with the parsed JSON response.
    * @throws JulesAPIError if the API returns an error or a network error occurs.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    idempotent = true
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
     const headers = {
@@ -78,12 +152,14 @@ export class JulesClient {
       ...options.headers,
     };
 
-    let attempt = 0;
-    let lastError: unknown;
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+      this.stats.sent++;
 
-    while (attempt <= this.maxRetries) {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+      let error: JulesAPIError;
+      let unsent = false;
       try {
         const response = await fetch(url, {
           ...options,
@@ -91,109 +167,245 @@ export class JulesClient {
           signal: controller.signal,
         });
 
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorBody = await response.text();
-          // Retry on transient 5xx
-          if (response.status >= 500 && attempt < this.maxRetries) {
-            attempt++;
-            lastError = new JulesAPIError(
-              `Jules API error: ${response.statusText}`,
-              response.status,
-              errorBody
-            );
-            continue;
-          }
-          throw new JulesAPIError(
-            `Jules API error: ${response.statusText}`,
-            response.status,
-            errorBody
-          );
+        if (response.ok) {
+          // Some endpoints (e.g., DELETE) answer with an empty body
+          const body = await response.text();
+          return (body ? JSON.parse(body) : {}) as T;
         }
 
-        return (await response.json()) as T;
-      } catch (error) {
+        const errorBody = await response.text();
+        error = new JulesAPIError(
+          `Jules API error: ${response.statusText}`,
+          response.status,
+          errorBody,
+          response.status === 429 || response.status === 503
+            ? JulesClient.parseRetryAfter(response.headers.get('retry-after'))
+            : undefined
+        );
+      } catch (caught) {
+        unsent = JulesClient.isConnectFailure(caught);
+        error = new JulesAPIError(
+          `Network error: ${caught instanceof Error ? caught.message : 'Unknown error'}`
+        );
+      } finally {
         clearTimeout(timeoutId);
-        const isAbort =
-          error instanceof Error && error.name === 'AbortError';
-        if ((isAbort || error instanceof Error) && attempt < this.maxRetries) {
-          attempt++;
-          lastError = error;
-          continue;
-        }
-        if (error instanceof JulesAPIError) {
-          throw error;
-        }
-        throw new JulesAPIError(
-          `Network error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+
+      if (error.statusCode === 429) {
+        this.stats.rateLimited++;
+      }
+
+      const retryable =
+        error.statusCode === undefined
+          ? idempotent || unsent
+          : error.statusCode === 429 || error.statusCode >= 500;
+      if (error.retryAfterMs !== undefined) {
+        // The API asked every client to back off, not just this request
+        this.limiter.pauseUntil(
+          Date.now() + Math.min(error.retryAfterMs, this.retryMaxDelayMs)
         );
       }
+
+      const wait = Math.max(
+        this.getBackoffDelay(attempt),
+        error.retryAfterMs ?? 0
+      );
+      if (
+        !retryable ||
+        attempt >= this.maxRetries ||
+        wait > this.retryMaxDelayMs
+      ) {
+        this.stats.failed++;
+        if (error.statusCode === undefined && attempt > 0) {
+          error.message = error.message.replace(
+            'Network error:',
+            `Network error after ${attempt + 1} attempts:`
+          );
+        }
+        error.attempts = attempt + 1;
+        throw error;
+      }
+
+      this.stats.retried++;
+      await delay(wait);
     }
+  }
+
+  /**
+   * Gets the effective rate limits, retry settings and request counters.
+   * @returns The client diagnostics.
+   */
+  getDiagnostics(): ClientDiagnostics {
+    return {
+      rateLimit: this.limiter.getStats(),
+      cache: this.cache.getStats(),
+      retry: {
+        maxRetries: this.maxRetries,
+        baseDelayMs: this.retryBaseDelayMs,
+        maxDelayMs: this.retryMaxDelayMs,
+        timeoutMs: this.timeoutMs,
+      },
+      requests: { ...this.stats },
+    };
+  }
 
-    // Exhausted retries
-    throw new JulesAPIError(
-      `Network error after ${this.maxRetries + 1} attempts: ${
-        lastError instanceof Error ? lastError.message : 'Unknown error'
-      }`
+  /**
+   * Computes the delay before a retry: exponential in the attempt number,
+   * capped, with the upper half randomized so that clients don't retry in step.
+   * @param attempt - The zero-based attempt that just failed.
+   * @returns The delay in milliseconds.
+   */
+  private getBackoffDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.retryMaxDelayMs,
+      this.retryBaseDelayMs * 2 ** attempt
     );
+    return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+  }
+
+  /**
+   * Checks whether a fetch failure happened before the request was sent.
+   * @param error - The error thrown by fetch.
+   * @returns True if the connection couldn't be established.
+   */
+  private static isConnectFailure(error: unknown): boolean {
+    const cause =
+      error instanceof Error
+        ? (error.cause as NodeJS.ErrnoException | undefined)
+        : undefined;
+    return CONNECT_ERROR_CODES.has(cause?.code ?? '');
   }
 
   /**
-   * List all connected GitHub repositories.
+   * Parses a Retry-After header (delay in seconds or an HTTP date).
+   * @param value - The header value.
+   * @returns The delay in milliseconds, or undefined if absent or malformed.
+   */
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * List connected GitHub repositories (one page). Cached for JULES_API_CACHE_TTL_MS.
    * GET /v1alpha/sources
    * @param pageSize - The maximum number of sources to return (default: 100).
+   * @param pageToken - The nextPageToken from a previous page (optional).
    * @returns A promise that resolves with the list of sources.
    */
-  async listSources(pageSize = 100): Promise<ListSourcesResponse> {
-    return this.request<ListSourcesResponse>(
-      `/sources?pageSize=${pageSize}`
+  async listSources(
+    pageSize = 100,
+    pageToken?: string
+  ): Promise<ListSourcesResponse> {
+    const endpoint = JulesClient.withQuery('/sources', { pageSize, pageToken });
+    return this.cache.getOrLoad(endpoint, () =>
+      this.request<ListSourcesResponse>(endpoint)
     );
   }
 
   /**
-   * Get details for a specific source.
+   * Iterate over all connected GitHub repositories, following page tokens.
+   * @param pageSize - The page size to request (default: 100).
+   * @returns An async iterator over every source.
+   */
+  async *iterateSources(pageSize = 100): AsyncGenerator<Source> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listSources(pageSize, pageToken);
+      yield* page.sources ?? [];
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Get details for a specific source. Cached for JULES_API_CACHE_TTL_MS.
    * GET /v1alpha/sources/{name}
    * @param sourceName - The resource name of the source to retrieve.
    * @returns A promise that resolves with the source details.
    */
   async getSource(sourceName: string): Promise<Source> {
-    return this.request<Source>(`/${sourceName}`);
+    return this.cache.getOrLoad(`/${sourceName}`, () =>
+      this.request<Source>(`/${sourceName}`)
+    );
   }
 
   /**
    * Create a new coding session.
+   * Not retried after a timeout, which could create a duplicate session.
+   * Cached session list pages are dropped even if the request fails, as
+   * mutateSession does, since the session may have been created before the error.
    * POST /v1alpha/sessions
    * @param request - The request body for creating a session.
    * @returns A promise that resolves with the created session.
    */
   async createSession(request: CreateSessionRequest): Promise<Session> {
-    return this.request<Session>('/sessions', {
-      method: 'POST',
-      body: JSON.stringify(request),
-    });
+    try {
+      return await this.request<Session>(
+        '/sessions',
+        {
+          method: 'POST',
+          body: JSON.stringify(request),
+        },
+        false
+      );
+    } finally {
+      this.cache.invalidatePrefix('/sessions?');
+    }
   }
 
   /**
-   * List all sessions with pagination.
+   * List sessions (one page), most recent first.
    * GET /v1alpha/sessions
    * @param pageSize - The maximum number of sessions to return (default: 20).
+   * @param pageToken - The nextPageToken from a previous page (optional).
    * @returns A promise that resolves with the list of sessions.
    */
-  async listSessions(pageSize = 20): Promise<ListSessionsResponse> {
+  async listSessions(
+    pageSize = 20,
+    pageToken?: string
+  ): Promise<ListSessionsResponse> {
     return this.request<ListSessionsResponse>(
-      `/sessions?pageSize=${pageSize}`
+      JulesClient.withQuery('/sessions', { pageSize, pageToken })
     );
   }
 
   /**
-   * Get details for a specific session.
+   * Iterate over all sessions, following page tokens.
+   * Callers should stop iterating once they have what they need.
+   * @param pageSize - The page size to request (default: 100).
+   * @returns An async iterator over every session.
+   */
+  async *iterateSessions(pageSize = 100): AsyncGenerator<Session> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listSessions(pageSize, pageToken);
+      yield* page.sessions ?? [];
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Get details for a specific session. Sessions in a terminal state are
+   * cached until a mutation of the session invalidates them.
    * GET /v1alpha/sessions/{id}
    * @param sessionId - The ID of the session to retrieve.
    * @returns A promise that resolves with the session details.
    */
   async getSession(sessionId: string): Promise<Session> {
-    return this.request<Session>(`/sessions/${sessionId}`);
+    return this.cache.getOrLoad(
+      `/sessions/${sessionId}`,
+      () => this.request<Session>(`/sessions/${sessionId}`),
+      (session) =>
+        session.state && TERMINAL_SESSION_STATES.includes(session.state)
+          ? Infinity
+          : 0
+    );
   }
 
   /**
@@ -203,14 +415,40 @@ export class JulesClient {
    * @returns A promise that resolves with the updated session.
    */
   async approvePlan(sessionId: string): Promise<Session> {
-    return this.request<Session>(`/sessions/${sessionId}:approvePlan`, {
+    return this.mutateSession(sessionId, ':approvePlan', {
+      method: 'POST',
+      body: '{}',
+    });
+  }
+
+  /**
+   * Cancel a session that hasn't finished.
+   * POST /v1alpha/sessions/{id}:cancel
+   * @param sessionId - The ID of the session to cancel.
+   * @returns A promise that resolves with the updated session.
+   */
+  async cancelSession(sessionId: string): Promise<Session> {
+    return this.mutateSession(sessionId, ':cancel', {
       method: 'POST',
       body: '{}',
     });
   }
 
+  /**
+   * Delete a session and its activities.
+   * DELETE /v1alpha/sessions/{id}
+   * @param sessionId - The ID of the session to delete.
+   * @returns A promise that resolves when the session is deleted.
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.mutateSession<Record<string, never>>(sessionId, '', {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * Send feedback message to an active session.
+   * Not retried after a timeout, which could deliver it twice.
    * POST /v1alpha/sessions/{id}:sendMessage
    * @param sessionId - The ID of the session to send the message to.
    * @param request - The request body containing the message prompt.
@@ -220,25 +458,113 @@ export class JulesClient {
     sessionId: string,
     request: SendMessageRequest
   ): Promise<Session> {
-    return this.request<Session>(`/sessions/${sessionId}:sendMessage`, {
-      method: 'POST',
-      body: JSON.stringify(request),
-    });
+    return this.mutateSession(
+      sessionId,
+      ':sendMessage',
+      {
+        method: 'POST',
+        body: JSON.stringify(request),
+      },
+      false
+    );
   }
 
   /**
-   * List activities for a session (the event stream/log).
+   * List activities for a session (the event stream/log, one page).
    * GET /v1alpha/sessions/{id}/activities
    * @param sessionId - The ID of the session to list activities for.
    * @param pageSize - The maximum number of activities to return (default: 50).
+   * @param pageToken - The nextPageToken from a previous page (optional).
    * @returns A promise that resolves with the list of activities.
    */
   async listActivities(
     sessionId: string,
-    pageSize = 50
+    pageSize = 50,
+    pageToken?: string
   ): Promise<ListActivitiesResponse> {
     return this.request<ListActivitiesResponse>(
-      `/sessions/${sessionId}/activities?pageSize=${pageSize}`
+      JulesClient.withQuery(`/sessions/${sessionId}/activities`, {
+        pageSize,
+        pageToken,
+      })
     );
   }
+
+  /**
+   * Iterate over all activities for a session, following page tokens.
+   * @param sessionId - The ID of the session.
+   * @param pageSize - The page size to request (default: 100).
+   * @returns An async iterator over every activity, in API order.
+   */
+  async *iterateActivities(
+    sessionId: string,
+    pageSize = 100
+  ): AsyncGenerator<Activity> {
+    let pageToken: string | undefined;
+    do {
+      const page = await this.listActivities(sessionId, pageSize, pageToken);
+      yield* page.activities ?? [];
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+  }
+
+  /**
+   * Fetch every activity for a session.
+   * @param sessionId - The ID of the session.
+   * @returns A promise that resolves with all activities.
+   */
+  async listAllActivities(sessionId: string): Promise<Activity[]> {
+    const activities: Activity[] = [];
+    for await (const activity of this.iterateActivities(sessionId)) {
+      activities.push(activity);
+    }
+    return activities;
+  }
+
+  /**
+   * Sends a request that changes a session, dropping its cached copy.
+   * The cache is invalidated even if the request fails, since the
+   * mutation may have been applied before the error.
+   * @param sessionId - The ID of the session.
+   * @param suffix - The custom method (e.g., ":approvePlan"), or '' for the session itself.
+   * @param options - The fetch options.
+   * @param idempotent - Whether repeating the request is harmless (default: true).
+   * @returns The parsed response.
+   */
+  private async mutateSession<T = Session>(
+    sessionId: string,
+    suffix: string,
+    options: RequestInit,
+    idempotent = true
+  ): Promise<T> {
+    try {
+      return await this.request<T>(
+        `/sessions/${sessionId}${suffix}`,
+        options,
+        idempotent
+      );
+    } finally {
+      this.cache.invalidate(`/sessions/${sessionId}`);
+    }
+  }
+
+  /**
+   * Builds an endpoint path with query parameters, skipping undefined values.
+   * @param path - The endpoint path.
+   * @param params - The query parameters.
+   * @returns The path with an encoded query string.
+   */
+  private static withQuery(
+    path: string,
+    params: Record<string, string | number | undefined>
+  ): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        query.set(key, String(value));
+      }
+    }
+    const encoded = query.toString();
+    return encoded ? `${path}?${encoded}` : path;
+  }
 }
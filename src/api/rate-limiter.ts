@@ -0,0 +1,140 @@
+/**
+ * Rate Limiter - Client-side token bucket for Jules API requests
+ * Spreads bursts (e.g., many schedules firing at the same minute) over time
+ * and pauses all requests while the API asks clients to back off
+ */
+
+import { delay } from '../utils/security.js';
+
+/**
+ * Snapshot of a rate limiter's configuration and state.
+ */
+export interface RateLimiterStats {
+  /** Sustained request rate (0 means unlimited) */
+  requestsPerMinute: number;
+  /** Maximum requests that may be sent back-to-back */
+  burst: number;
+  /** Tokens currently available */
+  availableTokens: number;
+  /** Requests currently waiting for a token */
+  queued: number;
+  /** Requests that had to wait for a token or a pause */
+  throttledRequests: number;
+  /** Total time requests spent waiting, in milliseconds */
+  totalWaitMs: number;
+  /** ISO timestamp until which all requests are paused (e.g., after a 429) */
+  pausedUntil?: string;
+}
+
+/**
+ * FIFO token bucket. Each request takes one token; tokens refill
+ * continuously at requestsPerMinute up to the burst size.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private throttledRequests = 0;
+  private totalWaitMs = 0;
+
+  /**
+   * Creates an instance of TokenBucket.
+   * @param requestsPerMinute - Sustained request rate (0 disables the limit).
+   * @param burst - Bucket size (at least 1).
+   */
+  constructor(
+    private readonly requestsPerMinute: number,
+    private readonly burst: number
+  ) {
+    this.burst = Math.max(1, burst);
+    this.tokens = this.burst;
+  }
+
+  /**
+   * Waits for a token. Callers are served in arrival order.
+   * @returns A promise that resolves when the request may be sent.
+   */
+  acquire(): Promise<void> {
+    this.queued++;
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.queued--;
+    });
+  }
+
+  /**
+   * Holds back every request until the given time (e.g., a Retry-After).
+   * @param time - Epoch milliseconds to pause until.
+   */
+  pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  /**
+   * Gets the limiter's configuration and state.
+   * @returns The current stats.
+   */
+  getStats(): RateLimiterStats {
+    this.refill();
+    return {
+      requestsPerMinute: this.requestsPerMinute,
+      burst: this.burst,
+      availableTokens: Math.floor(this.tokens),
+      queued: this.queued,
+      throttledRequests: this.throttledRequests,
+      totalWaitMs: this.totalWaitMs,
+      pausedUntil:
+        this.pausedUntil > Date.now()
+          ? new Date(this.pausedUntil).toISOString()
+          : undefined,
+    };
+  }
+
+  /**
+   * Takes a token, sleeping until one is available and any pause has ended.
+   */
+  private async take(): Promise<void> {
+    const started = Date.now();
+
+    for (;;) {
+      this.refill();
+      const now = Date.now();
+      const tokenWait =
+        this.requestsPerMinute > 0 && this.tokens < 1
+          ? Math.ceil(((1 - this.tokens) * 60000) / this.requestsPerMinute)
+          : 0;
+      const wait = Math.max(this.pausedUntil - now, tokenWait);
+      if (wait <= 0) {
+        break;
+      }
+      await delay(wait);
+    }
+
+    if (this.requestsPerMinute > 0) {
+      this.tokens -= 1;
+    }
+
+    const waited = Date.now() - started;
+    if (waited > 0) {
+      this.throttledRequests++;
+      this.totalWaitMs += waited;
+    }
+  }
+
+  /**
+   * Adds the tokens earned since the last refill.
+   */
+  private refill(): void {
+    const now = Date.now();
+    if (this.requestsPerMinute > 0) {
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + ((now - this.lastRefill) * this.requestsPerMinute) / 60000
+      );
+    }
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Response Cache - In-memory TTL cache for Jules API reads
+ * Entries can be kept for a fixed time, indefinitely (e.g., finished
+ * sessions), or not at all, and are invalidated by key after mutations
+ */
+
+/** Maximum number of cached responses; the oldest are evicted first */
+const MAX_ENTRIES = 1000;
+
+/**
+ * Snapshot of a response cache's configuration and counters.
+ */
+export interface ResponseCacheStats {
+  /** Default time to live (0 means caching is disabled) */
+  ttlMs: number;
+  /** Responses currently cached */
+  entries: number;
+  /** Reads answered from the cache */
+  hits: number;
+  /** Reads that went to the API */
+  misses: number;
+  /** Entries dropped after a mutation */
+  invalidations: number;
+}
+
+/**
+ * A cached response.
+ */
+interface CacheEntry {
+  value: unknown;
+  /** Epoch milliseconds after which the entry is stale (Infinity: never) */
+  expiresAt: number;
+}
+
+/**
+ * Caches API responses by key.
+ */
+export class ResponseCache {
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  /**
+   * Creates an instance of ResponseCache.
+   * @param ttlMs - Default time to live (0 disables the cache).
+   */
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Returns a cached response, or loads and caches it.
+   * @param key - The cache key.
+   * @param load - Fetches the response on a miss.
+   * @param ttlFor - Time to live for a loaded value (default: the cache TTL;
+   * 0 skips caching it, Infinity keeps it until invalidated).
+   * @returns The cached or loaded response.
+   */
+  async getOrLoad<T>(
+    key: string,
+    load: () => Promise<T>,
+    ttlFor: (value: T) => number = () => this.ttlMs
+  ): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.hits++;
+      return cached.value as T;
+    }
+
+    this.misses++;
+    this.entries.delete(key);
+    const value = await load();
+    const ttl = ttlFor(value);
+    if (ttl > 0) {
+      this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+      if (this.entries.size > MAX_ENTRIES) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Drops a cached response.
+   * @param key - The cache key.
+   */
+  invalidate(key: string): void {
+    if (this.entries.delete(key)) {
+      this.invalidations++;
+    }
+  }
+
+  /**
+   * Drops every cached response whose key starts with a prefix.
+   * @param prefix - The key prefix (e.g., "/sessions?" for session list pages).
+   */
+  invalidatePrefix(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.invalidate(key);
+      }
+    }
+  }
+
+  /**
+   * Gets the cache's configuration and counters.
+   * @returns The current stats.
+   */
+  getStats(): ResponseCacheStats {
+    return {
+      ttlMs: this.ttlMs,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+    };
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Source Preflight - Confirms a repository is connected before work is created
+ * and resolves the branch to use when none is given
+ */
+
+import { JulesAPIError, type JulesClient } from './jules-client.js';
+import type { Source } from '../types/jules-api.js';
+
+/** Maximum number of "did you mean" suggestions */
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Whether sources are checked with getSource before tasks and schedules are
+ * created. Disabled by JULES_VALIDATE_SOURCES=false.
+ * @returns True unless preflight validation is turned off.
+ */
+export function isSourcePreflightEnabled(): boolean {
+  return process.env.JULES_VALIDATE_SOURCES !== 'false';
+}
+
+/**
+ * Branch used when neither the caller nor the source names one.
+ * @returns JULES_DEFAULT_BRANCH, or "main".
+ */
+export function getFallbackBranch(): string {
+  return process.env.JULES_DEFAULT_BRANCH || 'main';
+}
+
+/**
+ * Confirms that a source is connected to Jules. Only a 404 fails the check;
+ * other errors are logged and the source is accepted unchecked.
+ * @param client - The client for interacting with the Jules API.
+ * @param source - The source resource name (sources/github/owner/repo).
+ * @param logger - The logger function used when the check can't be made (defaults to console.error).
+ * @returns The source details, or undefined if they couldn't be fetched.
+ * @throws Error with suggestions from listSources if the source isn't connected.
+ */
+export async function preflightSource(
+  client: JulesClient,
+  source: string,
+  logger: (message: string) => void = console.error
+): Promise<Source | undefined> {
+  try {
+    return await client.getSource(source);
+  } catch (error) {
+    if (!(error instanceof JulesAPIError && error.statusCode === 404)) {
+      logger(
+        `Could not confirm ${source} is connected, continuing without the check: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  const connected: Source[] = [];
+  try {
+    for await (const candidate of client.iterateSources()) {
+      connected.push(candidate);
+    }
+  } catch {
+    // Suggestions are best-effort; the source is still missing
+  }
+
+  const suggestions = suggestSources(source, connected);
+  const hint =
+    suggestions.length > 0
+      ? `Did you mean ${suggestions.join(' or ')}?`
+      : 'Read jules://sources for the connected repositories.';
+  throw new Error(`Repository ${source} is not connected to Jules. ${hint}`);
+}
+
+/**
+ * Resolves the branch for a session: the given branch, else the source's
+ * default branch, else JULES_DEFAULT_BRANCH or "main".
+ * Failing to fetch the source isn't an error here; the fallback is used,
+ * or the last known branch if the failure wasn't a 404.
+ * @param client - The client for interacting with the Jules API.
+ * @param source - The source resource name.
+ * @param branch - The requested branch (optional).
+ * @param known - The source details, if already fetched (optional).
+ * @param lastKnown - The branch a previous session started from (optional).
+ * @returns The branch to start from.
+ */
+export async function resolveBranch(
+  client: JulesClient,
+  source: string,
+  branch?: string,
+  known?: Source,
+  lastKnown?: string
+): Promise<string> {
+  if (branch) {
+    return branch;
+  }
+
+  try {
+    const details = known ?? (await client.getSource(source));
+    return details.githubRepo?.defaultBranch || getFallbackBranch();
+  } catch (error) {
+    if (error instanceof JulesAPIError && error.statusCode === 404) {
+      return getFallbackBranch();
+    }
+    return lastKnown || getFallbackBranch();
+  }
+}
+
+/**
+ * Ranks connected sources by similarity to a source name.
+ * @param source - The requested source resource name.
+ * @param connected - The connected sources.
+ * @returns Up to three close matches, closest first.
+ */
+export function suggestSources(source: string, connected: Source[]): string[] {
+  const target = repoPath(source);
+  const targetRepo = target.split('/').pop() ?? target;
+
+  return connected
+    .map((candidate) => {
+      const path = repoPath(candidate.name);
+      const sameRepo = path.split('/').pop() === targetRepo;
+      return {
+        name: candidate.name,
+        distance: sameRepo ? 0 : editDistance(target, path),
+        length: path.length,
+      };
+    })
+    // Allow roughly one typo per three characters
+    .filter(
+      ({ distance, length }) =>
+        distance <=
+        Math.max(2, Math.floor(Math.max(length, target.length) / 3))
+    )
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ name }) => name);
+}
+
+/**
+ * Extracts the lowercase owner/repo part of a source resource name.
+ * @param source - The source resource name.
+ * @returns The owner/repo path.
+ */
+function repoPath(source: string): string {
+  return source.replace(/^sources\/github\//, '').toLowerCase();
+}
+
+/**
+ * Levenshtein distance between two strings.
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The number of single-character edits between them.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
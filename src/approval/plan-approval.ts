@@ -0,0 +1,250 @@
+/**
+ * Plan Approval Engine - Automated approve/reject decisions for generated plans
+ * Evaluates a plan's change set against an ApprovalPolicy and acts on the session
+ */
+
+import { JulesAPIError, type JulesClient } from '../api/jules-client.js';
+import type { ChangeSet } from '../types/jules-api.js';
+import type { ApprovalDecision, ApprovalPolicy } from '../types/approval.js';
+import { renderChangeSet } from '../utils/change-set.js';
+import { matchesAnyGlob } from '../utils/glob.js';
+import { retryWithBackoff } from '../utils/security.js';
+
+/** Feedback sent with rejections when the policy doesn't define one */
+const DEFAULT_REJECTION_MESSAGE =
+  'This plan was rejected by the automated approval policy. Please revise the plan so it satisfies these constraints:';
+
+/** Attempts at approving or rejecting a plan when the API fails transiently */
+const ACTION_ATTEMPTS = 3;
+
+/** Delay before the first repeated attempt (doubled for each further one) */
+const ACTION_RETRY_DELAY_MS = 30000;
+
+/**
+ * Result of checking a change set against a policy.
+ */
+export interface PolicyEvaluation {
+  /** Whether the change set could be evaluated at all */
+  evaluable: boolean;
+  /** Why the change set couldn't be evaluated */
+  reason?: string;
+  /** Rule violations (empty if the plan passes) */
+  violations: string[];
+  /** Number of changed files */
+  files: number;
+  /** Number of added plus removed lines */
+  changedLines: number;
+}
+
+/**
+ * Applies approval policies to plans awaiting approval.
+ */
+export class PlanApprovalEngine {
+  /** Latest evaluated plan activity per session */
+  private readonly evaluatedPlans: Map<string, string> = new Map();
+
+  /**
+   * Creates an instance of PlanApprovalEngine.
+   * @param client - The client for interacting with the Jules API.
+   * @param logger - The logger function used to record every decision (defaults to console.log).
+   */
+  constructor(
+    private readonly client: JulesClient,
+    private readonly logger: (message: string) => void = console.log
+  ) {}
+
+  /**
+   * Checks a change set against a policy without side effects.
+   * @param policy - The approval policy.
+   * @param changeSet - The change set from a PLAN_GENERATED activity.
+   * @returns The evaluation result.
+   */
+  static evaluate(
+    policy: ApprovalPolicy,
+    changeSet: ChangeSet | undefined
+  ): PolicyEvaluation {
+    const rendered = renderChangeSet(changeSet, { maxTotalChars: 0 });
+    const files = rendered.files.length;
+    const changedLines = rendered.additions + rendered.deletions;
+
+    if (!changeSet?.changes || files === 0) {
+      return {
+        evaluable: false,
+        reason: 'Plan has no change set to evaluate',
+        violations: [],
+        files,
+        changedLines,
+      };
+    }
+
+    // Files without a usable diff count as 0 lines, which would let an
+    // arbitrarily large plan pass maxChangedLines
+    const unmeasured = rendered.files
+      .filter((file) => file.diffSource === 'none')
+      .map((file) => file.path);
+    if (unmeasured.length > 0) {
+      return {
+        evaluable: false,
+        reason: `Changed lines can't be counted for ${unmeasured.join(', ')}`,
+        violations: [],
+        files,
+        changedLines,
+      };
+    }
+
+    const violations: string[] = [];
+    const paths = rendered.files.map((file) => file.path);
+
+    if (policy.allowedPaths && policy.allowedPaths.length > 0) {
+      const outside = paths.filter(
+        (path) => !matchesAnyGlob(path, policy.allowedPaths!)
+      );
+      if (outside.length > 0) {
+        violations.push(
+          `Changes are only allowed in ${policy.allowedPaths.join(', ')}; plan touches ${outside.join(', ')}`
+        );
+      }
+    }
+
+    if (policy.protectedPaths && policy.protectedPaths.length > 0) {
+      const protectedHits = paths.filter((path) =>
+        matchesAnyGlob(path, policy.protectedPaths!)
+      );
+      if (protectedHits.length > 0) {
+        violations.push(
+          `Protected paths must not be modified: ${protectedHits.join(', ')}`
+        );
+      }
+    }
+
+    if (policy.maxFiles !== undefined && files > policy.maxFiles) {
+      violations.push(
+        `Plan changes ${files} files; the limit is ${policy.maxFiles}`
+      );
+    }
+
+    if (
+      policy.maxChangedLines !== undefined &&
+      changedLines > policy.maxChangedLines
+    ) {
+      violations.push(
+        `Plan changes ${changedLines} lines; the limit is ${policy.maxChangedLines}`
+      );
+    }
+
+    return { evaluable: true, violations, files, changedLines };
+  }
+
+  /**
+   * Evaluates the latest plan of a session and approves or rejects it.
+   * Each plan is evaluated at most once; a revised plan is evaluated again.
+   * Transient API failures are retried with backoff; if every attempt
+   * fails, the plan is left for manual review and evaluated again when the
+   * session next reports it.
+   * @param sessionId - The ID of the session awaiting plan approval.
+   * @param policy - The approval policy to apply.
+   * @returns The decision, or null if the latest plan was already evaluated.
+   */
+  async review(
+    sessionId: string,
+    policy: ApprovalPolicy
+  ): Promise<ApprovalDecision | null> {
+    const activities = await this.client.listAllActivities(sessionId);
+    const planActivity = [...activities]
+      .reverse()
+      .find((activity) => activity.planGenerated);
+
+    if (
+      planActivity &&
+      this.evaluatedPlans.get(sessionId) === planActivity.name
+    ) {
+      return null;
+    }
+
+    const evaluation = PlanApprovalEngine.evaluate(
+      policy,
+      planActivity?.planGenerated?.changeSet
+    );
+
+    const decision: ApprovalDecision = {
+      sessionId,
+      planActivity: planActivity?.name,
+      outcome: 'manual',
+      reasons: [],
+      files: evaluation.files,
+      changedLines: evaluation.changedLines,
+      decidedAt: new Date().toISOString(),
+    };
+    let failed = false;
+
+    if (!evaluation.evaluable) {
+      decision.reasons = [
+        planActivity && evaluation.reason
+          ? evaluation.reason
+          : 'No generated plan found',
+      ];
+    } else {
+      const approve = evaluation.violations.length === 0;
+      const feedback = [
+        policy.rejectionMessage || DEFAULT_REJECTION_MESSAGE,
+        ...evaluation.violations.map((violation) => `- ${violation}`),
+      ].join('\n');
+
+      try {
+        await retryWithBackoff(
+          async () => {
+            if (approve) {
+              await this.client.approvePlan(sessionId);
+            } else {
+              await this.client.sendMessage(sessionId, { prompt: feedback });
+            }
+          },
+          ACTION_ATTEMPTS,
+          ACTION_RETRY_DELAY_MS,
+          PlanApprovalEngine.isTransient
+        );
+        decision.outcome = approve ? 'approved' : 'rejected';
+        decision.reasons = evaluation.violations;
+      } catch (error) {
+        failed = true;
+        decision.reasons = [
+          `Could not ${approve ? 'approve' : 'reject'} the plan: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ];
+      }
+    }
+
+    if (planActivity && !failed) {
+      this.evaluatedPlans.set(sessionId, planActivity.name);
+    }
+
+    this.logger(
+      `Approval policy ${decision.outcome} plan for session ${sessionId} (${decision.files} files, ${decision.changedLines} lines)${
+        decision.reasons.length > 0 ? `: ${decision.reasons.join('; ')}` : ''
+      }`
+    );
+
+    return decision;
+  }
+
+  /**
+   * Forgets the plans evaluated for a session, e.g. once it has finished.
+   * @param sessionId - The ID of the session.
+   */
+  forget(sessionId: string): void {
+    this.evaluatedPlans.delete(sessionId);
+  }
+
+  /**
+   * Checks whether a failed approve or reject call is worth repeating.
+   * @param error - The error thrown by the client.
+   * @returns True for network errors, 429 and 5xx responses.
+   */
+  private static isTransient(error: unknown): boolean {
+    return (
+      error instanceof JulesAPIError &&
+      (error.statusCode === undefined ||
+        error.statusCode === 429 ||
+        error.statusCode >= 500)
+    );
+  }
+}
@@ -0,0 +1,587 @@
+/**
+ * Jules CLI - Subcommands for inspecting and managing sessions and schedules
+ * Runs the same tool implementations as the MCP server, without an MCP client
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs, type ParseArgsConfig } from 'node:util';
+import { JulesClient } from '../api/jules-client.js';
+import { ActivityCache } from '../api/activity-cache.js';
+import type { ScheduleRepository } from '../storage/repository.js';
+import { createScheduleRepository } from '../storage/factory.js';
+import { CronEngine } from '../scheduler/cron-engine.js';
+import { SessionWatcher } from '../watcher/session-watcher.js';
+import { SessionFollowUp } from '../watcher/session-follow-up.js';
+import { PlanApprovalEngine } from '../approval/plan-approval.js';
+import { JulesResources } from '../mcp/resources.js';
+import { JulesTools, ScheduleTaskSchema } from '../mcp/tools.js';
+import { RepositoryValidator } from '../utils/security.js';
+import { formatRecord, formatTable, type Column } from './output.js';
+
+const USAGE = `Usage: jules-mcp [command] [options]
+
+Without a command, starts the MCP server.
+
+Commands:
+  sessions list [--limit N] [--cursor C]   List sessions, most recent first
+  sessions get <id>                         Show a session's status
+  sessions approve <id>                     Approve a session's plan
+  sessions message <id> <text>              Send feedback to a session
+  sessions cancel <id> --yes                Cancel a session
+  sessions delete <id> --yes                Delete a session
+  sessions cancel-all (--source SOURCE | --schedule NAME) [--yes]
+                                            Cancel all active sessions on a
+                                            repository or of a schedule
+                                            (without --yes, only lists them)
+  schedules list                            List scheduled tasks
+  schedules add <name> --cron EXPR --prompt TEXT --source SOURCE
+                [--branch B] [--timezone TZ] [--misfire-policy skip|run_once|run_all]
+                [--overlap-policy allow|skip|queue|cancel_previous]
+                [--require-plan-approval] [--no-auto-pr]
+                                            Create a scheduled task
+  schedules rm <name>                       Delete a scheduled task
+  schedules run <name>                      Run a scheduled task now
+  schedules pause <name>                    Pause a scheduled task
+  schedules resume <name>                   Resume a paused scheduled task
+  schedules export [--format yaml|json] [--output FILE]
+                                            Write all schedules as a manifest
+  schedules import <file> [--dry-run] [--sync]
+                                            Apply a manifest (--sync deletes
+                                            schedules missing from it)
+  sources                                   List connected repositories
+  daemon                                    Run the scheduler and session
+                                            watcher only (no MCP)
+
+Options:
+  --json    Print raw JSON instead of a table
+  --help    Show this help`;
+
+const SESSION_COLUMNS: Column[] = [
+  { header: 'id', key: 'id' },
+  { header: 'state', key: 'state' },
+  { header: 'title', key: 'title', maxWidth: 40 },
+  { header: 'repository', key: 'repository' },
+  { header: 'created', key: 'created' },
+];
+
+const SCHEDULE_COLUMNS: Column[] = [
+  { header: 'name', key: 'name' },
+  { header: 'cron', key: 'cron' },
+  { header: 'timezone', key: 'timezone' },
+  { header: 'enabled', key: 'enabled' },
+  { header: 'next run', key: 'nextRunLocal' },
+  { header: 'last run', key: 'lastRun' },
+  { header: 'repository', key: 'repository' },
+];
+
+const SOURCE_COLUMNS: Column[] = [
+  { header: 'repository', key: 'repository' },
+  { header: 'default branch', key: 'defaultBranch' },
+  { header: 'name', key: 'name' },
+];
+
+/**
+ * Error for invalid command lines; reported together with the usage text.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Command-line interface over JulesClient, the schedule repository and CronEngine.
+ */
+export class JulesCli {
+  private components?: {
+    client: JulesClient;
+    storage: ScheduleRepository;
+    scheduler: CronEngine;
+    watcher: SessionWatcher;
+    followUp: SessionFollowUp;
+    resources: JulesResources;
+    tools: JulesTools;
+  };
+  private json = false;
+
+  /**
+   * Runs a command line.
+   * @param argv - The arguments after the program name.
+   * @returns The process exit code (0 success, 1 failure, 2 usage error).
+   */
+  async run(argv: string[]): Promise<number> {
+    const [command, ...rest] = argv;
+
+    if (!command || ['help', '--help', '-h'].includes(command)) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    try {
+      switch (command) {
+        case 'sessions':
+          await this.sessions(rest);
+          break;
+        case 'schedules':
+          await this.schedules(rest);
+          break;
+        case 'sources':
+          await this.sources(rest);
+          break;
+        case 'daemon':
+          await this.daemon(rest);
+          break;
+        default:
+          throw new UsageError(`Unknown command: ${command}`);
+      }
+      return 0;
+    } catch (error) {
+      if (error instanceof UsageError) {
+        console.error(`${error.message}\n\n${USAGE}`);
+        return 2;
+      }
+      console.error(
+        `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return 1;
+    }
+  }
+
+  /**
+   * Command: sessions list|get|approve|message|cancel|delete|cancel-all
+   * @param argv - The arguments after "sessions".
+   */
+  private async sessions(argv: string[]): Promise<void> {
+    const [action, ...rest] = argv;
+    const { tools } = this.getComponents();
+
+    switch (action) {
+      case 'list': {
+        const { values } = this.parse(rest, {
+          limit: { type: 'string' },
+          cursor: { type: 'string' },
+        });
+        const result = await this.call(
+          tools.listSessions({
+            page_size: Number(values.limit ?? 50),
+            cursor: values.cursor,
+          })
+        );
+        this.print(result, () => {
+          const table = formatTable(
+            result.sessions as Array<Record<string, unknown>>,
+            SESSION_COLUMNS
+          );
+          return result.nextCursor
+            ? `${table}\n\nMore sessions: --cursor ${result.nextCursor}`
+            : table;
+        });
+        return;
+      }
+
+      case 'get': {
+        const [sessionId] = this.positionals(rest, ['id']);
+        const result = await this.call(
+          tools.getSessionStatus({ session_id: sessionId })
+        );
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'approve': {
+        const [sessionId] = this.positionals(rest, ['id']);
+        const result = await this.call(
+          tools.manageSession({
+            session_id: sessionId,
+            action: 'approve_plan',
+            confirm: false,
+          })
+        );
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'message': {
+        const { positionals } = this.parse(rest);
+        const [sessionId, ...words] = positionals;
+        if (!sessionId || words.length === 0) {
+          throw new UsageError('Usage: jules-mcp sessions message <id> <text>');
+        }
+        const result = await this.call(
+          tools.manageSession({
+            session_id: sessionId,
+            action: 'send_message',
+            message: words.join(' '),
+            confirm: false,
+          })
+        );
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'cancel':
+      case 'delete': {
+        const { values, positionals } = this.parse(rest, {
+          yes: { type: 'boolean' },
+        });
+        if (positionals.length !== 1) {
+          throw new UsageError(`Usage: jules-mcp sessions ${action} <id> --yes`);
+        }
+        if (!values.yes) {
+          throw new UsageError(
+            `This cannot be undone; pass --yes to ${action} session ${positionals[0]}`
+          );
+        }
+        const result = await this.call(
+          tools.manageSession({
+            session_id: positionals[0],
+            action,
+            confirm: true,
+          })
+        );
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'cancel-all': {
+        const { values, positionals } = this.parse(rest, {
+          source: { type: 'string' },
+          schedule: { type: 'string' },
+          yes: { type: 'boolean' },
+        });
+        if (positionals.length > 0 || (!values.source && !values.schedule)) {
+          throw new UsageError(
+            'Usage: jules-mcp sessions cancel-all (--source SOURCE | --schedule NAME) [--yes]'
+          );
+        }
+        const result = await this.call(
+          tools.cancelSessions({
+            source: values.source,
+            task_name: values.schedule,
+            confirm: values.yes === true,
+            max_scanned: 500,
+          })
+        );
+        this.print(result, () => {
+          if (!result.dryRun) {
+            return formatRecord(result);
+          }
+          const sessions = result.sessions as Array<Record<string, unknown>>;
+          return `${formatTable(sessions, SESSION_COLUMNS)}\n\n${sessions.length} active session(s) match. Pass --yes to cancel them.`;
+        });
+        return;
+      }
+
+      default:
+        throw new UsageError(`Unknown sessions action: ${action ?? '(none)'}`);
+    }
+  }
+
+  /**
+   * Command: schedules list|add|rm|run|pause|resume|export|import
+   * @param argv - The arguments after "schedules".
+   */
+  private async schedules(argv: string[]): Promise<void> {
+    const [action, ...rest] = argv;
+    const { tools } = this.getComponents();
+
+    switch (action) {
+      case 'list': {
+        this.parse(rest);
+        const result = await this.call(tools.listSchedules());
+        this.print(result, () =>
+          formatTable(
+            result.schedules as Array<Record<string, unknown>>,
+            SCHEDULE_COLUMNS
+          )
+        );
+        return;
+      }
+
+      case 'add': {
+        const { values, positionals } = this.parse(rest, {
+          cron: { type: 'string' },
+          prompt: { type: 'string' },
+          source: { type: 'string' },
+          branch: { type: 'string' },
+          timezone: { type: 'string' },
+          'misfire-policy': { type: 'string' },
+          'overlap-policy': { type: 'string' },
+          'require-plan-approval': { type: 'boolean' },
+          'no-auto-pr': { type: 'boolean' },
+        });
+        if (positionals.length !== 1) {
+          throw new UsageError(
+            'Usage: jules-mcp schedules add <name> --cron EXPR --prompt TEXT --source SOURCE'
+          );
+        }
+
+        const parsed = ScheduleTaskSchema.safeParse({
+          task_name: positionals[0],
+          cron_expression: values.cron,
+          prompt: values.prompt,
+          source: values.source,
+          branch: values.branch,
+          timezone: values.timezone,
+          misfire_policy: values['misfire-policy'],
+          overlap_policy: values['overlap-policy'],
+          require_plan_approval: values['require-plan-approval'],
+          auto_create_pr: values['no-auto-pr'] ? false : undefined,
+        });
+        if (!parsed.success) {
+          throw new UsageError(
+            parsed.error.issues
+              .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+              .join('\n')
+          );
+        }
+
+        const result = await this.call(
+          tools.scheduleRecurringTask(parsed.data)
+        );
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'rm': {
+        const [name] = this.positionals(rest, ['name']);
+        const result = await this.call(tools.deleteSchedule({ task_name: name }));
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'run': {
+        const [name] = this.positionals(rest, ['name']);
+        const result = await this.call(tools.runScheduleNow({ task_name: name }));
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'pause': {
+        const [name] = this.positionals(rest, ['name']);
+        const result = await this.call(tools.pauseSchedule({ task_name: name }));
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'resume': {
+        const [name] = this.positionals(rest, ['name']);
+        const result = await this.call(tools.resumeSchedule({ task_name: name }));
+        this.print(result, () => formatRecord(result));
+        return;
+      }
+
+      case 'export': {
+        const { values } = this.parse(rest, {
+          format: { type: 'string' },
+          output: { type: 'string' },
+        });
+        const format = values.format ?? 'yaml';
+        if (format !== 'yaml' && format !== 'json') {
+          throw new UsageError(`Unknown manifest format: ${format}`);
+        }
+
+        const result = await this.call(tools.exportSchedules({ format }));
+        if (values.output) {
+          await writeFile(values.output, result.manifest as string);
+          console.error(`Exported ${result.count} schedules to ${values.output}`);
+          return;
+        }
+        this.print(result, () => (result.manifest as string).trimEnd());
+        return;
+      }
+
+      case 'import': {
+        const { values, positionals } = this.parse(rest, {
+          'dry-run': { type: 'boolean' },
+          sync: { type: 'boolean' },
+        });
+        if (positionals.length !== 1) {
+          throw new UsageError(
+            'Usage: jules-mcp schedules import <file> [--dry-run] [--sync]'
+          );
+        }
+
+        const result = await this.call(
+          tools.importSchedules({
+            manifest: await readFile(positionals[0], 'utf-8'),
+            sync: values.sync === true,
+            dry_run: values['dry-run'] === true,
+          })
+        );
+        this.print(result, () => {
+          const update = result.update as Array<{ name: string; fields: string[] }>;
+          const lines = [
+            ...(result.create as string[]).map((name) => `+ ${name}`),
+            ...update.map(({ name, fields }) => `~ ${name} (${fields.join(', ')})`),
+            ...(result.delete as string[]).map((name) => `- ${name}`),
+          ];
+          return [...lines, result.message].join('\n');
+        });
+        return;
+      }
+
+      default:
+        throw new UsageError(`Unknown schedules action: ${action ?? '(none)'}`);
+    }
+  }
+
+  /**
+   * Command: sources
+   * @param argv - The arguments after "sources".
+   */
+  private async sources(argv: string[]): Promise<void> {
+    this.parse(argv);
+    const { resources } = this.getComponents();
+    const result = JSON.parse(await resources.getSources());
+    this.print(result, () => formatTable(result.sources, SOURCE_COLUMNS));
+  }
+
+  /**
+   * Command: daemon
+   * Runs the scheduler until SIGINT/SIGTERM, without serving MCP.
+   * Scheduled sessions are watched like in the server, so run records get
+   * their final states, finished sessions start queued runs, and approval
+   * policies are applied.
+   * @param argv - The arguments after "daemon".
+   */
+  private async daemon(argv: string[]): Promise<void> {
+    this.parse(argv);
+    const { scheduler, storage, watcher, followUp } = this.getComponents();
+
+    console.error(`Schedule storage: ${storage.description}`);
+    await scheduler.initialize();
+    await followUp.watchUnfinishedRuns();
+    console.error('Scheduler running. Press Ctrl+C to stop.');
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', resolve);
+      process.once('SIGTERM', resolve);
+    });
+    watcher.shutdown();
+    scheduler.shutdown();
+    await storage.close();
+  }
+
+  /**
+   * Helper: Creates the shared components on first use.
+   * Scheduler, watcher and approval logs go to stderr so that stdout stays
+   * machine-readable.
+   * @returns The client, storage, scheduler, watcher, resources and tools.
+   */
+  private getComponents(): NonNullable<JulesCli['components']> {
+    if (!this.components) {
+      RepositoryValidator.initialize();
+      const client = new JulesClient();
+      const storage = createScheduleRepository();
+      const watcher = new SessionWatcher(client, (event) => {
+        console.error(
+          `Session ${event.sessionId}: ${event.previousState ?? 'UNKNOWN'} → ${event.state}`
+        );
+        followUp.handle(event).catch((error) => {
+          console.error(
+            `Failed to follow up on session ${event.sessionId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        });
+      });
+      const scheduler = new CronEngine(
+        storage,
+        client,
+        (msg) => console.error(msg),
+        (run) => followUp.watchRun(run)
+      );
+      const followUp = new SessionFollowUp(
+        storage,
+        scheduler,
+        watcher,
+        new PlanApprovalEngine(client, (msg) => console.error(msg))
+      );
+      this.components = {
+        client,
+        storage,
+        scheduler,
+        watcher,
+        followUp,
+        resources: new JulesResources(client, storage, scheduler),
+        tools: new JulesTools(
+          client,
+          storage,
+          scheduler,
+          watcher,
+          new ActivityCache(client)
+        ),
+      };
+    }
+    return this.components;
+  }
+
+  /**
+   * Helper: Parses options, accepting --json everywhere.
+   * @param args - The arguments to parse.
+   * @param options - Command-specific options (optional).
+   * @returns The parsed values and positionals.
+   * @throws UsageError if an option is unknown or malformed.
+   */
+  private parse<T extends NonNullable<ParseArgsConfig['options']>>(
+    args: string[],
+    options: T = {} as T
+  ) {
+    try {
+      const parsed = parseArgs({
+        args,
+        options: { ...options, json: { type: 'boolean' } },
+        allowPositionals: true,
+        strict: true,
+      });
+      this.json = (parsed.values as Record<string, unknown>).json === true;
+      return parsed;
+    } catch (error) {
+      throw new UsageError(
+        error instanceof Error ? error.message : 'Invalid arguments'
+      );
+    }
+  }
+
+  /**
+   * Helper: Parses exactly the named positional arguments.
+   * @param args - The arguments to parse.
+   * @param names - The names of the expected positionals (for the error message).
+   * @returns The positional values.
+   * @throws UsageError if the count doesn't match.
+   */
+  private positionals(args: string[], names: string[]): string[] {
+    const { positionals } = this.parse(args);
+    if (positionals.length !== names.length) {
+      throw new UsageError(
+        `Expected ${names.map((name) => `<${name}>`).join(' ')}`
+      );
+    }
+    return positionals;
+  }
+
+  /**
+   * Helper: Awaits a tool result and unwraps its JSON.
+   * @param result - The pending tool result.
+   * @returns The parsed result.
+   * @throws Error with the tool's message if the tool failed.
+   */
+  private async call(
+    result: Promise<string>
+  ): Promise<Record<string, unknown>> {
+    const parsed = JSON.parse(await result);
+    if (parsed.success === false) {
+      throw new Error(parsed.error);
+    }
+    return parsed;
+  }
+
+  /**
+   * Helper: Prints a result as JSON (--json) or in human-readable form.
+   * @param result - The result to print.
+   * @param render - Renders the human-readable form.
+   */
+  private print(result: unknown, render: () => string): void {
+    console.log(this.json ? JSON.stringify(result, null, 2) : render());
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * CLI output helpers - Plain-text tables and JSON output
+ */
+
+/**
+ * A table column.
+ */
+export interface Column {
+  /** Header text */
+  header: string;
+  /** Key of the value in each row */
+  key: string;
+  /** Maximum characters shown before truncating (optional) */
+  maxWidth?: number;
+}
+
+/**
+ * Converts a value to a single-line cell.
+ * @param value - The value to render.
+ * @param maxWidth - Maximum characters before truncating (optional).
+ * @returns The cell text.
+ */
+function toCell(value: unknown, maxWidth?: number): string {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = '-';
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value).replace(/\s+/g, ' ');
+  }
+
+  if (maxWidth !== undefined && text.length > maxWidth) {
+    return `${text.slice(0, maxWidth - 1)}…`;
+  }
+  return text;
+}
+
+/**
+ * Renders rows as an aligned plain-text table.
+ * @param rows - The rows to render.
+ * @param columns - The columns to show, in order.
+ * @returns The table text (or a placeholder if there are no rows).
+ */
+export function formatTable(
+  rows: Array<Record<string, unknown>>,
+  columns: Column[]
+): string {
+  if (rows.length === 0) {
+    return '(none)';
+  }
+
+  const cells = rows.map((row) =>
+    columns.map((column) => toCell(row[column.key], column.maxWidth))
+  );
+  const widths = columns.map((column, i) =>
+    Math.max(column.header.length, ...cells.map((line) => line[i].length))
+  );
+
+  const render = (line: string[]) =>
+    line
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  return [
+    render(columns.map((column) => column.header.toUpperCase())),
+    ...cells.map(render),
+  ].join('\n');
+}
+
+/**
+ * Renders an object as aligned "key: value" lines.
+ * @param record - The object to render.
+ * @returns The rendered lines.
+ */
+export function formatRecord(record: Record<string, unknown>): string {
+  const entries = Object.entries(record).filter(
+    ([, value]) => value !== undefined
+  );
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+
+  return entries
+    .map(([key, value]) => `${`${key}:`.padEnd(width + 1)} ${toCell(value)}`)
+    .join('\n');
+}
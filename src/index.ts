@@ -11,79 +11,147 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type LoggingMessageNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { JulesClient } from './api/jules-client.js';
-import { ScheduleStorage } from './storage/schedule-store.js';
+import { ActivityCache } from './api/activity-cache.js';
+import type { ScheduleRepository } from './storage/repository.js';
+import { createScheduleRepository } from './storage/factory.js';
 import { CronEngine } from './scheduler/cron-engine.js';
+import {
+  SessionWatcher,
+  type SessionWatchEvent,
+} from './watcher/session-watcher.js';
+import { SessionFollowUp } from './watcher/session-follow-up.js';
 import { JulesResources } from './mcp/resources.js';
 import {
   JulesTools,
   CreateTaskSchema,
   ManageSessionSchema,
+  CancelSessionsSchema,
   GetSessionStatusSchema,
+  GetSessionUpdatesSchema,
   ScheduleTaskSchema,
   DeleteScheduleSchema,
+  UpdateScheduleSchema,
+  PauseScheduleSchema,
+  ResumeScheduleSchema,
+  RunScheduleNowSchema,
+  ExportSchedulesSchema,
+  ImportSchedulesSchema,
+  WaitForSessionSchema,
+  ListSessionsSchema,
+  SearchSessionsSchema,
 } from './mcp/tools.js';
 import { JulesPromptManager, JULES_PROMPTS } from './mcp/prompts.js';
+import { PlanApprovalEngine } from './approval/plan-approval.js';
 import { RepositoryValidator } from './utils/security.js';
+import { McpHttpServer } from './transport/http-server.js';
+import { JulesCli } from './cli/index.js';
+
+/**
+ * JSON schema for the approval_policy tool argument.
+ */
+const APPROVAL_POLICY_INPUT_SCHEMA = {
+  type: 'object',
+  description:
+    'Automatically approve plans that satisfy every rule and reject the rest with feedback. Requires require_plan_approval=true.',
+  properties: {
+    allowed_paths: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Glob patterns every changed path must match',
+    },
+    protected_paths: {
+      type: 'array',
+      items: { type: 'string' },
+      description:
+        'Glob patterns no changed path may match (e.g., ".github/workflows/**")',
+    },
+    max_files: { type: 'number', description: 'Maximum changed files' },
+    max_changed_lines: {
+      type: 'number',
+      description: 'Maximum added plus removed lines',
+    },
+    rejection_message: {
+      type: 'string',
+      description: 'Feedback sent to Jules when a plan is rejected',
+    },
+  },
+};
 
 /**
  * Main server class for the Jules MCP server.
  * Handles the initialization of components and setup of MCP request handlers.
  */
 class JulesMCPServer {
-  private server: Server;
+  private servers: Set<Server> = new Set();
   private client: JulesClient;
-  private storage: ScheduleStorage;
+  private storage: ScheduleRepository;
   private scheduler: CronEngine;
+  private watcher: SessionWatcher;
+  private approvalEngine: PlanApprovalEngine;
+  private followUp: SessionFollowUp;
+  private subscriptions: Map<Server, Set<string>> = new Map();
   private resources: JulesResources;
   private tools: JulesTools;
   private promptManager: JulesPromptManager;
+  private httpServer?: McpHttpServer;
+  private logToStderr = false;
 
   /**
    * Initializes the Jules MCP Server.
-   * Sets up the server, client, storage, scheduler, resources, tools, and prompts.
+   * Sets up the client, storage, scheduler, resources, tools, and prompts.
+   * MCP server instances are created per connection by createServer.
    */
   constructor() {
     // Initialize security validator with environment config
     RepositoryValidator.initialize();
 
-    // Initialize MCP server
-    this.server = new Server(
-      {
-        name: 'jules-mcp-server',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-          prompts: {},
-          logging: {},
-        },
-      }
-    );
-
     // Initialize Jules API client
     this.client = new JulesClient();
 
+    // Initialize plan approval engine (decisions are logged to the MCP client)
+    this.approvalEngine = new PlanApprovalEngine(this.client, (msg) => {
+      this.log({ level: 'info', logger: 'plan-approval', data: msg });
+    });
+
+    // Initialize session watcher
+    this.watcher = new SessionWatcher(
+      this.client,
+      (event) => void this.handleSessionEvent(event),
+      (msg) => {
+        this.log({ level: 'warning', logger: 'session-watcher', data: msg });
+      }
+    );
+
     // Initialize storage and scheduler
-    this.storage = new ScheduleStorage();
+    this.storage = createScheduleRepository(undefined, (msg) => {
+      this.log({ level: 'warning', logger: 'schedule-store', data: msg });
+    });
     this.scheduler = new CronEngine(
       this.storage,
       this.client,
       (msg) => {
-        // Log to MCP client
-        this.server.sendLoggingMessage({
-          level: 'info',
-          data: msg,
-        });
-      }
+        // Log to MCP clients
+        this.log({ level: 'info', data: msg });
+      },
+      // Watch sessions spawned by schedules
+      (run) => this.followUp.watchRun(run)
+    );
+    this.followUp = new SessionFollowUp(
+      this.storage,
+      this.scheduler,
+      this.watcher,
+      this.approvalEngine
     );
 
     // Initialize MCP components
@@ -92,19 +160,83 @@ class JulesMCPServer {
       this.storage,
       this.scheduler
     );
-    this.tools = new JulesTools(this.client, this.storage, this.scheduler);
+    this.tools = new JulesTools(
+      this.client,
+      this.storage,
+      this.scheduler,
+      this.watcher,
+      new ActivityCache(this.client),
+      (msg) => {
+        this.log({ level: 'warning', logger: 'source-preflight', data: msg });
+      }
+    );
     this.promptManager = new JulesPromptManager();
+  }
 
-    this.setupHandlers();
+  /**
+   * Creates an MCP server instance for one client connection.
+   * All instances share the same client, storage, scheduler and watcher.
+   * @returns The configured MCP server.
+   */
+  private createServer(): Server {
+    const server = new Server(
+      {
+        name: 'jules-mcp-server',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true },
+          tools: {},
+          prompts: {},
+          logging: {},
+        },
+      }
+    );
+
+    this.setupHandlers(server);
+    this.servers.add(server);
+    this.subscriptions.set(server, new Set());
+
+    server.onclose = () => {
+      this.servers.delete(server);
+      this.subscriptions.delete(server);
+    };
+
+    return server;
+  }
+
+  /**
+   * Sends a logging message to every connected MCP client.
+   * In HTTP mode the message is also written to stderr, since the daemon
+   * may run with no clients connected.
+   * @param params - The logging message parameters.
+   */
+  private log(params: LoggingMessageNotification['params']): void {
+    if (this.logToStderr) {
+      const data =
+        typeof params.data === 'string'
+          ? params.data
+          : JSON.stringify(params.data);
+      const source = params.logger ? ` ${params.logger}:` : '';
+      console.error(`[${params.level}]${source} ${data}`);
+    }
+
+    for (const server of this.servers) {
+      server.sendLoggingMessage(params).catch(() => {
+        // Client not connected yet or already gone
+      });
+    }
   }
 
   /**
    * Sets up MCP protocol handlers.
    * Configures handlers for listing and reading resources, tools, and prompts.
+   * @param server - The MCP server instance to register the handlers on.
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Resource handlers
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       ListResourcesRequestSchema,
       async () => ({
         resources: [
@@ -133,30 +265,126 @@ class JulesMCPServer {
             description: 'History of scheduled task executions',
             mimeType: 'application/json',
           },
+          {
+            uri: 'jules://diagnostics',
+            name: 'Server Diagnostics',
+            description:
+              'Effective API rate limits, retry settings, request counters, response cache hits and misses, scheduler concurrency limits and run queue',
+            mimeType: 'application/json',
+          },
+        ],
+      })
+    );
+
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      async () => ({
+        resourceTemplates: [
+          {
+            uriTemplate: 'jules://sessions/{id}/full',
+            name: 'Session Details',
+            description:
+              'Complete session details including activities',
+            mimeType: 'application/json',
+          },
+          {
+            uriTemplate: 'jules://sessions/{id}/plan',
+            name: 'Session Plan Review',
+            description:
+              'Latest generated plan with per-file unified diffs and added/removed line counts',
+            mimeType: 'application/json',
+          },
+          {
+            uriTemplate: 'jules://sessions/{id}/transcript{?format,since}',
+            name: 'Session Transcript',
+            description:
+              'Every message, plan, progress update and completion in order, as Markdown (default) or JSON (format=json). Pass since=<timestamp> for turns after that time.',
+            mimeType: 'text/markdown',
+          },
+          {
+            uriTemplate: 'jules://sources{?cursor,limit}',
+            name: 'Connected Repositories (paged)',
+            description:
+              'One page of connected repositories; follow nextCursor for more',
+            mimeType: 'application/json',
+          },
+          {
+            uriTemplate: 'jules://sessions/list{?cursor,limit}',
+            name: 'Sessions (paged)',
+            description:
+              'One page of sessions, most recent first; follow nextCursor for older sessions',
+            mimeType: 'application/json',
+          },
+          {
+            uriTemplate: 'jules://schedules/{id}/history{?cursor,limit}',
+            name: 'Schedule Run Log',
+            description:
+              'Paginated execution log for a single scheduled task',
+            mimeType: 'application/json',
+          },
         ],
       })
     );
 
-    this.server.setRequestHandler(
+    server.setRequestHandler(
       ReadResourceRequestSchema,
       async (request) => {
         const uri = request.params.uri;
+        const [path, query = ''] = uri.split('?', 2);
+        const params = new URLSearchParams(query);
 
         try {
           let content: string;
+          let mimeType = 'application/json';
+          const cursor = params.get('cursor') ?? undefined;
+          const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+          if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+            throw new Error(
+              `Invalid limit: ${params.get('limit')} (expected a positive integer)`
+            );
+          }
 
-          if (uri === 'jules://sources') {
-            content = await this.resources.getSources();
-          } else if (uri === 'jules://sessions/list') {
-            content = await this.resources.getSessionsList();
-          } else if (uri === 'jules://schedules') {
+          if (path === 'jules://sources') {
+            content = await this.resources.getSources(cursor, limit);
+          } else if (path === 'jules://sessions/list') {
+            content = await this.resources.getSessionsList(cursor, limit);
+          } else if (path === 'jules://schedules') {
             content = await this.resources.getSchedules();
-          } else if (uri === 'jules://schedules/history') {
+          } else if (path === 'jules://schedules/history') {
             content = await this.resources.getScheduleHistory();
-          } else if (uri.startsWith('jules://sessions/') && uri.endsWith('/full')) {
+          } else if (path === 'jules://diagnostics') {
+            content = await this.resources.getDiagnostics();
+          } else if (path.startsWith('jules://sessions/') && path.endsWith('/full')) {
             // Extract session ID from URI
-            const sessionId = uri.replace('jules://sessions/', '').replace('/full', '');
+            const sessionId = path.replace('jules://sessions/', '').replace('/full', '');
             content = await this.resources.getSessionFull(sessionId);
+          } else if (path.startsWith('jules://sessions/') && path.endsWith('/plan')) {
+            // Extract session ID from URI
+            const sessionId = path.replace('jules://sessions/', '').replace('/plan', '');
+            content = await this.resources.getSessionPlan(sessionId);
+          } else if (path.startsWith('jules://sessions/') && path.endsWith('/transcript')) {
+            // Extract session ID from URI
+            const sessionId = path.replace('jules://sessions/', '').replace('/transcript', '');
+            const format = params.get('format') ?? 'markdown';
+            if (format !== 'markdown' && format !== 'json') {
+              throw new Error(`Unknown transcript format: ${format}`);
+            }
+            content = await this.resources.getSessionTranscript(
+              sessionId,
+              format,
+              params.get('since') ?? undefined
+            );
+            if (format === 'markdown') {
+              mimeType = 'text/markdown';
+            }
+          } else if (path.startsWith('jules://schedules/') && path.endsWith('/history')) {
+            // Extract schedule ID from URI
+            const scheduleId = path.replace('jules://schedules/', '').replace('/history', '');
+            content = await this.resources.getScheduleRunHistory(
+              scheduleId,
+              cursor,
+              limit
+            );
           } else {
             throw new Error(`Unknown resource URI: ${uri}`);
           }
@@ -165,7 +393,7 @@ class JulesMCPServer {
             contents: [
               {
                 uri,
-                mimeType: 'application/json',
+                mimeType,
                 text: content,
               },
             ],
@@ -178,8 +406,25 @@ class JulesMCPServer {
       }
     );
 
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = request.params.uri;
+      this.subscriptions.get(server)?.add(uri);
+
+      // Subscribing to a session starts watching it
+      const match = uri.match(/^jules:\/\/sessions\/([\w-]+)\/full$/);
+      if (match) {
+        this.watcher.watch(match[1]);
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.get(server)?.delete(request.params.uri);
+      return {};
+    });
+
     // Tool handlers
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'create_coding_task',
@@ -200,8 +445,8 @@ class JulesMCPServer {
               },
               branch: {
                 type: 'string',
-                description: 'Git branch to base changes on',
-                default: 'main',
+                description:
+                  "Git branch to base changes on (default: the repository's default branch)",
               },
               auto_create_pr: {
                 type: 'boolean',
@@ -218,6 +463,7 @@ class JulesMCPServer {
                 type: 'string',
                 description: 'Optional session title',
               },
+              approval_policy: APPROVAL_POLICY_INPUT_SCHEMA,
             },
             required: ['prompt', 'source'],
           },
@@ -225,24 +471,57 @@ class JulesMCPServer {
         {
           name: 'manage_session',
           description:
-            'Manage an active Jules session: approve plans or send feedback',
+            'Manage a Jules session: approve plans, send feedback, cancel or delete',
           inputSchema: {
             type: 'object',
             properties: {
               session_id: { type: 'string', description: 'Session ID' },
               action: {
                 type: 'string',
-                enum: ['approve_plan', 'send_message'],
+                enum: ['approve_plan', 'send_message', 'cancel', 'delete'],
                 description: 'Action to perform',
               },
               message: {
                 type: 'string',
                 description: 'Message (required for send_message)',
               },
+              confirm: {
+                type: 'boolean',
+                description:
+                  'Must be true for cancel and delete, which cannot be undone',
+                default: false,
+              },
             },
             required: ['session_id', 'action'],
           },
         },
+        {
+          name: 'cancel_sessions',
+          description:
+            'Cancel every active session on a repository or spawned by a schedule. Without confirm=true, only lists the sessions that would be canceled.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description: 'Repository (sources/github/owner/repo)',
+              },
+              task_name: { type: 'string', description: 'Schedule name' },
+              schedule_id: { type: 'string', description: 'Schedule ID' },
+              confirm: {
+                type: 'boolean',
+                description: 'Must be true to cancel the matching sessions',
+                default: false,
+              },
+              max_scanned: {
+                type: 'number',
+                description:
+                  'Maximum sessions to inspect when matching by repository',
+                default: 500,
+              },
+            },
+          },
+        },
         {
           name: 'get_session_status',
           description:
@@ -255,10 +534,143 @@ class JulesMCPServer {
             required: ['session_id'],
           },
         },
+        {
+          name: 'get_session_updates',
+          description:
+            'Get only the activities added to a session since the last call. Pass the returned cursor back on the next call; omit it the first time to get every activity.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              session_id: { type: 'string', description: 'Session ID' },
+              cursor: {
+                type: 'string',
+                description:
+                  'cursor from the previous call (an activity name or ISO timestamp also works)',
+              },
+            },
+            required: ['session_id'],
+          },
+        },
+        {
+          name: 'list_sessions',
+          description:
+            'List Jules sessions, most recent first. Pass the returned nextCursor as cursor to fetch older sessions.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              page_size: {
+                type: 'number',
+                description: 'Sessions per page (max 100)',
+                default: 50,
+              },
+              cursor: {
+                type: 'string',
+                description: 'nextCursor from a previous call',
+              },
+            },
+          },
+        },
+        {
+          name: 'search_sessions',
+          description:
+            'Find Jules sessions by state, repository, time window, title/prompt text, or whether a local schedule spawned them. Walks session pages and returns compact summaries.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              states: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: [
+                    'QUEUED',
+                    'PLANNING',
+                    'AWAITING_PLAN_APPROVAL',
+                    'IN_PROGRESS',
+                    'COMPLETED',
+                    'FAILED',
+                    'CANCELED',
+                  ],
+                },
+                description: 'Only sessions in one of these states',
+              },
+              source: {
+                type: 'string',
+                description:
+                  'Only sessions on this repository (sources/github/owner/repo)',
+              },
+              created_after: {
+                type: 'string',
+                description: 'ISO timestamp (inclusive)',
+              },
+              created_before: {
+                type: 'string',
+                description: 'ISO timestamp (exclusive)',
+              },
+              updated_after: {
+                type: 'string',
+                description: 'ISO timestamp (inclusive)',
+              },
+              updated_before: {
+                type: 'string',
+                description: 'ISO timestamp (exclusive)',
+              },
+              text: {
+                type: 'string',
+                description: 'Case-insensitive substring of title or prompt',
+              },
+              from_schedule: {
+                type: 'boolean',
+                description:
+                  'true: only schedule-spawned sessions; false: only ad-hoc sessions',
+              },
+              max_results: { type: 'number', default: 50 },
+              max_scanned: { type: 'number', default: 1000 },
+            },
+          },
+        },
+        {
+          name: 'wait_for_session',
+          description:
+            'Block until a Jules session reaches one of the target states or the timeout elapses. Returns the final session plus activities that arrived while waiting. Supports cancellation and progress notifications.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              session_id: { type: 'string', description: 'Session ID' },
+              target_states: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: [
+                    'QUEUED',
+                    'PLANNING',
+                    'AWAITING_PLAN_APPROVAL',
+                    'IN_PROGRESS',
+                    'COMPLETED',
+                    'FAILED',
+                    'CANCELED',
+                  ],
+                },
+                description:
+                  'States to wait for (default: any terminal state or AWAITING_PLAN_APPROVAL)',
+              },
+              timeout_seconds: {
+                type: 'number',
+                description: 'Maximum time to wait (max 3600)',
+                default: 600,
+              },
+              poll_interval_seconds: {
+                type: 'number',
+                description: 'Time between status checks (2-300)',
+                default: 10,
+              },
+            },
+            required: ['session_id'],
+          },
+        },
         {
           name: 'schedule_recurring_task',
           description:
-            'Schedule a Jules task to run automatically on a cron schedule. The server manages execution even when offline.',
+            'Schedule a Jules task to run automatically on a cron schedule. Schedules persist across restarts; runs missed while the server is offline are handled by misfire_policy.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -276,10 +688,38 @@ class JulesMCPServer {
                 type: 'string',
                 description: 'Repository resource name',
               },
-              branch: { type: 'string', default: 'main' },
+              branch: {
+                type: 'string',
+                description:
+                  "Git branch to target (default: the repository's default branch)",
+              },
               auto_create_pr: { type: 'boolean', default: true },
               require_plan_approval: { type: 'boolean', default: false },
-              timezone: { type: 'string', description: 'Timezone for cron' },
+              timezone: {
+                type: 'string',
+                description:
+                  'IANA timezone for cron (e.g., "America/New_York"). Defaults to the server timezone.',
+              },
+              misfire_policy: {
+                type: 'string',
+                enum: ['skip', 'run_once', 'run_all'],
+                description:
+                  'Runs missed while the server was offline: skip them, run once, or run each (capped by misfire_max_runs)',
+                default: 'skip',
+              },
+              misfire_max_runs: {
+                type: 'number',
+                description: 'Maximum catch-up runs for run_all',
+                default: 5,
+              },
+              overlap_policy: {
+                type: 'string',
+                enum: ['allow', 'skip', 'queue', 'cancel_previous'],
+                description:
+                  'Firing while the previous session is still running: start anyway, skip, wait until it finishes, or cancel it first',
+                default: 'allow',
+              },
+              approval_policy: APPROVAL_POLICY_INPUT_SCHEMA,
             },
             required: ['task_name', 'cron_expression', 'prompt', 'source'],
           },
@@ -303,10 +743,120 @@ class JulesMCPServer {
             required: ['task_name'],
           },
         },
+        {
+          name: 'update_schedule',
+          description:
+            'Edit a scheduled task in place (cron, prompt, branch, flags, timezone). Keeps its ID and run history. Identify the schedule by task_name or schedule_id.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_name: { type: 'string', description: 'Schedule name' },
+              schedule_id: { type: 'string', description: 'Schedule ID' },
+              cron_expression: {
+                type: 'string',
+                description: 'New cron expression',
+              },
+              prompt: { type: 'string', description: 'New task instruction' },
+              branch: { type: 'string', description: 'New target branch' },
+              auto_create_pr: { type: 'boolean' },
+              require_plan_approval: { type: 'boolean' },
+              timezone: {
+                type: 'string',
+                description: 'New IANA timezone for cron',
+              },
+              misfire_policy: {
+                type: 'string',
+                enum: ['skip', 'run_once', 'run_all'],
+              },
+              misfire_max_runs: { type: 'number' },
+              overlap_policy: {
+                type: 'string',
+                enum: ['allow', 'skip', 'queue', 'cancel_previous'],
+              },
+              approval_policy: APPROVAL_POLICY_INPUT_SCHEMA,
+            },
+          },
+        },
+        {
+          name: 'pause_schedule',
+          description:
+            'Pause a scheduled task without deleting it. Identify the schedule by task_name or schedule_id.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_name: { type: 'string', description: 'Schedule name' },
+              schedule_id: { type: 'string', description: 'Schedule ID' },
+            },
+          },
+        },
+        {
+          name: 'resume_schedule',
+          description:
+            'Resume a paused scheduled task. Runs missed while paused are not caught up. Identify the schedule by task_name or schedule_id.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_name: { type: 'string', description: 'Schedule name' },
+              schedule_id: { type: 'string', description: 'Schedule ID' },
+            },
+          },
+        },
+        {
+          name: 'run_schedule_now',
+          description:
+            'Fire a scheduled task once on demand. The run is admitted like a cron firing: it may be queued by the scheduler concurrency limits or skipped by the overlap policy (see status). Returns the created session ID when started. Identify the schedule by task_name or schedule_id.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              task_name: { type: 'string', description: 'Schedule name' },
+              schedule_id: { type: 'string', description: 'Schedule ID' },
+            },
+          },
+        },
+        {
+          name: 'export_schedules',
+          description:
+            'Export all schedules as a declarative YAML or JSON manifest keyed by schedule name, suitable for version control. Run state (IDs, last run) is not included.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['yaml', 'json'],
+                default: 'yaml',
+              },
+            },
+          },
+        },
+        {
+          name: 'import_schedules',
+          description:
+            'Apply a schedule manifest (from export_schedules): create and update schedules by name. With sync=true, also delete schedules missing from the manifest. Every entry is validated before anything changes; use dry_run to preview the create/update/delete diff.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              manifest: {
+                type: 'string',
+                description: 'YAML or JSON manifest text',
+              },
+              sync: {
+                type: 'boolean',
+                description: 'Delete schedules that are not in the manifest',
+                default: false,
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Report the changes without applying them',
+                default: false,
+              },
+            },
+            required: ['manifest'],
+          },
+        },
       ],
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -331,6 +881,47 @@ class JulesMCPServer {
             break;
           }
 
+          case 'get_session_updates': {
+            const validated = GetSessionUpdatesSchema.parse(args);
+            result = await this.tools.getSessionUpdates(validated);
+            break;
+          }
+
+          case 'list_sessions': {
+            const validated = ListSessionsSchema.parse(args);
+            result = await this.tools.listSessions(validated);
+            break;
+          }
+
+          case 'cancel_sessions': {
+            const validated = CancelSessionsSchema.parse(args);
+            result = await this.tools.cancelSessions(validated);
+            break;
+          }
+
+          case 'search_sessions': {
+            const validated = SearchSessionsSchema.parse(args);
+            result = await this.tools.searchSessions(validated);
+            break;
+          }
+
+          case 'wait_for_session': {
+            const validated = WaitForSessionSchema.parse(args);
+            const progressToken = request.params._meta?.progressToken;
+            result = await this.tools.waitForSession(validated, {
+              signal: extra.signal,
+              onProgress:
+                progressToken === undefined
+                  ? undefined
+                  : (progress, total, message) =>
+                      extra.sendNotification({
+                        method: 'notifications/progress',
+                        params: { progressToken, progress, total, message },
+                      }),
+            });
+            break;
+          }
+
           case 'schedule_recurring_task': {
             const validated = ScheduleTaskSchema.parse(args);
             result = await this.tools.scheduleRecurringTask(validated);
@@ -348,6 +939,42 @@ class JulesMCPServer {
             break;
           }
 
+          case 'update_schedule': {
+            const validated = UpdateScheduleSchema.parse(args);
+            result = await this.tools.updateSchedule(validated);
+            break;
+          }
+
+          case 'pause_schedule': {
+            const validated = PauseScheduleSchema.parse(args);
+            result = await this.tools.pauseSchedule(validated);
+            break;
+          }
+
+          case 'resume_schedule': {
+            const validated = ResumeScheduleSchema.parse(args);
+            result = await this.tools.resumeSchedule(validated);
+            break;
+          }
+
+          case 'run_schedule_now': {
+            const validated = RunScheduleNowSchema.parse(args);
+            result = await this.tools.runScheduleNow(validated);
+            break;
+          }
+
+          case 'export_schedules': {
+            const validated = ExportSchedulesSchema.parse(args);
+            result = await this.tools.exportSchedules(validated);
+            break;
+          }
+
+          case 'import_schedules': {
+            const validated = ImportSchedulesSchema.parse(args);
+            result = await this.tools.importSchedules(validated);
+            break;
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -376,7 +1003,7 @@ class JulesMCPServer {
     });
 
     // Prompt handlers
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
       prompts: JULES_PROMPTS.map((p) => ({
         name: p.name,
         description: p.description,
@@ -384,7 +1011,7 @@ class JulesMCPServer {
       })),
     }));
 
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -408,51 +1035,118 @@ class JulesMCPServer {
     });
   }
 
+  /**
+   * Reports a watched session's state change to the MCP clients.
+   * Sends a logging message and a resources/updated notification for
+   * subscribed session resources, then follows up on the session.
+   * @param event - The detected change.
+   */
+  private async handleSessionEvent(event: SessionWatchEvent): Promise<void> {
+    const uri = `jules://sessions/${event.sessionId}/full`;
+
+    let summary = `Session ${event.sessionId}: ${event.previousState ?? 'UNKNOWN'} → ${event.state}`;
+    if (event.type === 'plan_ready') {
+      summary += `. Plan is ready for review at jules://sessions/${event.sessionId}/plan`;
+    } else if (event.type === 'finished' && event.pullRequestUrl) {
+      summary += `. Pull Request: ${event.pullRequestUrl}`;
+    }
+
+    try {
+      this.log({
+        level: event.type === 'finished' && !event.success ? 'warning' : 'info',
+        logger: 'session-watcher',
+        data: { ...event, summary },
+      });
+
+      for (const [server, uris] of this.subscriptions) {
+        if (uris.has(uri)) {
+          await server.sendResourceUpdated({ uri });
+        }
+      }
+
+      await this.followUp.handle(event);
+    } catch (error) {
+      console.error(
+        `Failed to report session event for ${event.sessionId}:`,
+        error
+      );
+    }
+  }
+
   /**
    * Starts the MCP server.
-   * Connects the transport and initializes the scheduler.
+   * Serves MCP over stdio (default) or, with JULES_MCP_TRANSPORT=http, over
+   * Streamable HTTP on JULES_MCP_HTTP_HOST:JULES_MCP_HTTP_PORT, then
+   * initializes the scheduler.
    */
   async start(): Promise<void> {
-    // Create stdio transport
-    const transport = new StdioServerTransport();
+    const mode = process.env.JULES_MCP_TRANSPORT || 'stdio';
 
     // Handle shutdown
-    process.on('SIGINT', () => {
-      this.scheduler.shutdown();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', () => {
+    const shutdown = () => {
+      this.watcher.shutdown();
       this.scheduler.shutdown();
-      process.exit(0);
-    });
+      void Promise.allSettled([this.httpServer?.close(), this.storage.close()])
+        .finally(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
 
-    // Connect and run
-    await this.server.connect(transport);
+    if (mode === 'http') {
+      if (!process.env.JULES_MCP_HTTP_TOKEN) {
+        throw new Error(
+          'JULES_MCP_HTTP_TOKEN is required when JULES_MCP_TRANSPORT=http'
+        );
+      }
+      this.logToStderr = true;
+      this.httpServer = new McpHttpServer(() => this.createServer(), {
+        host: process.env.JULES_MCP_HTTP_HOST || '127.0.0.1',
+        port: Number(process.env.JULES_MCP_HTTP_PORT || 3333),
+        token: process.env.JULES_MCP_HTTP_TOKEN,
+      });
+      await this.httpServer.listen();
+    } else if (mode === 'stdio') {
+      // Connect and run
+      await this.createServer().connect(new StdioServerTransport());
+    } else {
+      throw new Error(
+        `Unknown JULES_MCP_TRANSPORT "${mode}" (expected "stdio" or "http")`
+      );
+    }
 
     // Initialize scheduler after transport is ready so logging works
+    this.log({
+      level: 'info',
+      data: `Schedule storage: ${this.storage.description}`,
+    });
     try {
       await this.scheduler.initialize();
+      await this.followUp.watchUnfinishedRuns();
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'Unknown error';
-      this.server.sendLoggingMessage({
+      this.log({
         level: 'error',
         data: `Scheduler initialization failed: ${message}`,
       });
     }
 
     // Log startup
-    this.server.sendLoggingMessage({
+    this.log({
       level: 'info',
       data: 'Jules MCP Server started successfully',
     });
   }
 }
 
-// Entry point
-const server = new JulesMCPServer();
-server.start().catch((error) => {
-  console.error('Failed to start server:', error);
-  process.exit(1);
-});
+// Entry point: a subcommand runs the CLI, otherwise start the MCP server
+const argv = process.argv.slice(2);
+if (argv.length > 0) {
+  new JulesCli().run(argv).then((code) => process.exit(code));
+} else {
+  const server = new JulesMCPServer();
+  server.start().catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+  });
+}
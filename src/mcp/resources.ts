@@ -4,9 +4,17 @@
  */
 
 import type { JulesClient } from '../api/jules-client.js';
-import type { ScheduleStorage } from '../storage/schedule-store.js';
+import { getFallbackBranch } from '../api/source-preflight.js';
+import type { Source } from '../types/jules-api.js';
+import type { ScheduleRepository } from '../storage/repository.js';
 import type { CronEngine } from '../scheduler/cron-engine.js';
 import { smartTruncate } from '../utils/security.js';
+import { renderChangeSet } from '../utils/change-set.js';
+import {
+  buildTranscript,
+  renderTranscriptMarkdown,
+  type TranscriptFormat,
+} from '../utils/transcript.js';
 
 /**
  * Manages the exposure of Jules resources via the MCP protocol.
@@ -14,24 +22,39 @@ import { smartTruncate } from '../utils/security.js';
 export class JulesResources {
   constructor(
     private readonly client: JulesClient,
-    private readonly storage: ScheduleStorage,
+    private readonly storage: ScheduleRepository,
     private readonly scheduler: CronEngine
   ) {}
 
   /**
    * Resource: jules://sources
-   * Returns a list of all connected GitHub repositories.
+   * Returns connected GitHub repositories. Without a limit, every page is
+   * fetched; with a limit, one page is returned along with a nextCursor.
+   * @param cursor - Opaque cursor from a previous page's nextCursor (optional).
+   * @param limit - The page size for paged reads (optional).
    * @returns A JSON string representing the connected sources.
    */
-  async getSources(): Promise<string> {
-    const response = await this.client.listSources();
+  async getSources(cursor?: string, limit?: number): Promise<string> {
+    let sources: Source[];
+    let nextCursor: string | undefined;
 
-    const formatted = response.sources.map((source) => ({
+    if (cursor || limit) {
+      const page = await this.client.listSources(limit || 100, cursor);
+      sources = page.sources ?? [];
+      nextCursor = page.nextPageToken;
+    } else {
+      sources = [];
+      for await (const source of this.client.iterateSources()) {
+        sources.push(source);
+      }
+    }
+
+    const formatted = sources.map((source) => ({
       name: source.name,
       repository: source.githubRepo
         ? `${source.githubRepo.owner}/${source.githubRepo.repo}`
         : 'Unknown',
-      defaultBranch: source.githubRepo?.defaultBranch || 'main',
+      defaultBranch: source.githubRepo?.defaultBranch || getFallbackBranch(),
       url: source.githubRepo?.htmlUrl,
     }));
 
@@ -39,6 +62,7 @@ export class JulesResources {
       {
         description: 'Connected GitHub repositories available for Jules tasks',
         count: formatted.length,
+        nextCursor,
         sources: formatted,
       },
       null,
@@ -48,13 +72,15 @@ export class JulesResources {
 
   /**
    * Resource: jules://sessions/list
-   * Returns a summary of recent sessions.
+   * Returns a page of recent sessions, most recent first.
+   * @param cursor - Opaque cursor from a previous page's nextCursor (optional).
+   * @param limit - The page size (default: 50).
    * @returns A JSON string representing a summary of recent sessions.
    */
-  async getSessionsList(): Promise<string> {
-    const response = await this.client.listSessions(50);
+  async getSessionsList(cursor?: string, limit = 50): Promise<string> {
+    const response = await this.client.listSessions(limit, cursor);
 
-    const formatted = response.sessions.map((session) => ({
+    const formatted = (response.sessions ?? []).map((session) => ({
       id: session.id,
       title: session.title || 'Untitled Task',
       state: session.state || 'UNKNOWN',
@@ -67,6 +93,7 @@ export class JulesResources {
       {
         description: 'Recent Jules sessions (tasks)',
         count: formatted.length,
+        nextCursor: response.nextPageToken,
         sessions: formatted,
       },
       null,
@@ -81,14 +108,14 @@ export class JulesResources {
    * @returns A JSON string representing the full session details.
    */
   async getSessionFull(sessionId: string): Promise<string> {
-    // Fetch session and activities in parallel
-    const [session, activitiesResponse] = await Promise.all([
+    // Fetch session and every page of activities in parallel
+    const [session, activities] = await Promise.all([
       this.client.getSession(sessionId),
-      this.client.listActivities(sessionId),
+      this.client.listAllActivities(sessionId),
     ]);
 
     // Format activities for readability
-    const formattedActivities = activitiesResponse.activities.map(
+    const formattedActivities = activities.map(
       (activity) => {
         const base = {
           type: activity.type,
@@ -101,7 +128,7 @@ export class JulesResources {
             ...base,
             plan: activity.planGenerated.plan,
             changesPreview: activity.planGenerated.changeSet
-              ? `${activity.planGenerated.changeSet.changes?.length || 0} files`
+              ? `${activity.planGenerated.changeSet.changes?.length || 0} files (diffs at jules://sessions/${sessionId}/plan)`
               : 'No changes',
           };
         }
@@ -123,6 +150,14 @@ export class JulesResources {
           };
         }
 
+        if (activity.messageSent) {
+          return {
+            ...base,
+            sender: activity.messageSent.sender,
+            message: activity.messageSent.prompt,
+          };
+        }
+
         return base;
       }
     );
@@ -136,7 +171,8 @@ export class JulesResources {
           prompt: session.prompt,
           repository: session.sourceContext.source,
           branch:
-            session.sourceContext.githubRepoContext?.startingBranch || 'main',
+            session.sourceContext.githubRepoContext?.startingBranch ||
+            getFallbackBranch(),
           automationMode: session.automationMode,
           requirePlanApproval: session.requirePlanApproval,
           created: session.createTime,
@@ -149,6 +185,115 @@ export class JulesResources {
     );
   }
 
+  /**
+   * Resource: jules://sessions/{id}/plan
+   * Returns the latest generated plan with per-file unified diffs and a
+   * summary of added/removed lines, for review before approve_plan.
+   * @param sessionId - The ID of the session.
+   * @returns A JSON string representing the rendered plan.
+   */
+  async getSessionPlan(sessionId: string): Promise<string> {
+    const [session, activities] = await Promise.all([
+      this.client.getSession(sessionId),
+      this.client.listAllActivities(sessionId),
+    ]);
+
+    const planActivity = [...activities]
+      .reverse()
+      .find((activity) => activity.planGenerated);
+
+    if (!planActivity?.planGenerated) {
+      return JSON.stringify(
+        {
+          session: { id: session.id, title: session.title, state: session.state },
+          plan: null,
+          message: 'No plan has been generated for this session yet.',
+        },
+        null,
+        2
+      );
+    }
+
+    const rendered = renderChangeSet(planActivity.planGenerated.changeSet);
+
+    return JSON.stringify(
+      {
+        session: {
+          id: session.id,
+          title: session.title,
+          state: session.state,
+          repository: session.sourceContext.source,
+        },
+        plan: {
+          activity: planActivity.name,
+          generated: planActivity.timestamp,
+          description: planActivity.planGenerated.plan,
+        },
+        summary: {
+          files: rendered.files.length,
+          additions: rendered.additions,
+          deletions: rendered.deletions,
+          truncated: rendered.truncated,
+          byPath: rendered.files.map((file) => ({
+            path: file.path,
+            status: file.status,
+            additions: file.additions,
+            deletions: file.deletions,
+          })),
+        },
+        files: rendered.files,
+        nextSteps:
+          session.state === 'AWAITING_PLAN_APPROVAL'
+            ? 'Review the diffs, then call manage_session with action=approve_plan, or action=send_message to request changes.'
+            : undefined,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Resource: jules://sessions/{id}/transcript
+   * Returns every message, plan, progress update and completion of a
+   * session in chronological order, starting with its prompt.
+   * @param sessionId - The ID of the session.
+   * @param format - Markdown conversation or JSON entries (default: markdown).
+   * @param since - Only turns after this ISO timestamp (optional).
+   * @returns The transcript as Markdown or a JSON string.
+   */
+  async getSessionTranscript(
+    sessionId: string,
+    format: TranscriptFormat = 'markdown',
+    since?: string
+  ): Promise<string> {
+    const [session, activities] = await Promise.all([
+      this.client.getSession(sessionId),
+      this.client.listAllActivities(sessionId),
+    ]);
+    const entries = buildTranscript(session, activities, since);
+
+    if (format === 'markdown') {
+      return renderTranscriptMarkdown(session, entries, since);
+    }
+
+    return JSON.stringify(
+      {
+        session: {
+          id: session.id,
+          title: session.title,
+          state: session.state,
+          repository: session.sourceContext.source,
+        },
+        since,
+        count: entries.length,
+        lastTimestamp: entries.at(-1)?.timestamp,
+        transcript: entries,
+      },
+      null,
+      2
+    );
+  }
+
   /**
    * Resource: jules://schedules
    * Returns all locally-managed scheduled tasks.
@@ -158,17 +303,23 @@ export class JulesResources {
     const tasks = await this.storage.listTasks();
 
     const formatted = tasks.map((task) => {
-      const nextRun = this.scheduler.getNextInvocation(task.id);
+      const nextRun = this.scheduler.describeNextInvocation(task);
       return {
         id: task.id,
         name: task.name,
         cron: task.cron,
+        timezone: task.timezone,
         enabled: task.enabled,
         repository: task.taskPayload.source,
         prompt: smartTruncate(task.taskPayload.prompt, 80),
-        nextRun: nextRun?.toISOString() || 'Not scheduled',
+        nextRun: nextRun?.utc || 'Not scheduled',
+        nextRunLocal: nextRun?.local,
         lastRun: task.lastRun || 'Never',
         lastSessionId: task.lastSessionId,
+        misfirePolicy: task.misfirePolicy ?? 'skip',
+        lastCatchUp: task.lastCatchUp,
+        overlapPolicy: task.overlapPolicy ?? 'allow',
+        lastOverlap: task.lastOverlap,
       };
     });
 
@@ -185,24 +336,32 @@ export class JulesResources {
 
   /**
    * Resource: jules://schedules/history
-   * Returns execution history of scheduled tasks.
+   * Returns the most recent executions across all scheduled tasks.
    * @returns A JSON string representing the execution history of scheduled tasks.
    */
   async getScheduleHistory(): Promise<string> {
-    const tasks = await this.storage.listTasks();
+    const [tasks, runs] = await Promise.all([
+      this.storage.listTasks(),
+      this.storage.listRecentRuns(50),
+    ]);
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
 
-    const history = tasks
-      .filter((task) => task.lastRun)
-      .sort(
-        (a, b) =>
-          new Date(b.lastRun!).getTime() - new Date(a.lastRun!).getTime()
-      )
-      .map((task) => ({
-        taskName: task.name,
-        executedAt: task.lastRun,
-        sessionId: task.lastSessionId,
-        prompt: smartTruncate(task.taskPayload.prompt, 100),
-      }));
+    const history = runs.map((run) => {
+      const task = tasksById.get(run.scheduleId);
+      return {
+        scheduleId: run.scheduleId,
+        taskName: task?.name,
+        executedAt: run.triggeredAt,
+        trigger: run.trigger,
+        scheduledFor: run.scheduledFor,
+        status: run.status,
+        attempts: run.attempts,
+        sessionId: run.sessionId,
+        sessionState: run.sessionState,
+        error: run.error,
+        prompt: task ? smartTruncate(task.taskPayload.prompt, 100) : undefined,
+      };
+    });
 
     return JSON.stringify(
       {
@@ -214,4 +373,67 @@ export class JulesResources {
       2
     );
   }
+
+  /**
+   * Resource: jules://schedules/{id}/history
+   * Returns a paginated execution log for a single schedule, newest first.
+   * @param scheduleId - The ID of the schedule.
+   * @param cursor - Opaque cursor from a previous page's nextCursor (optional).
+   * @param limit - The maximum number of entries to return (default: 20, larger values are capped at 100).
+   * @returns A JSON string representing one page of the schedule's run log.
+   */
+  async getScheduleRunHistory(
+    scheduleId: string,
+    cursor?: string,
+    limit = 20
+  ): Promise<string> {
+    const task = await this.storage.getTask(scheduleId);
+    if (!task) {
+      throw new Error(`No schedule found with ID: ${scheduleId}`);
+    }
+
+    const offset = cursor ? Number(cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid history cursor: ${cursor}`);
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid history limit: ${limit} (expected a positive integer)`);
+    }
+    const pageSize = Math.min(limit, 100);
+
+    const page = await this.storage.getRunHistory(scheduleId, offset, pageSize);
+
+    return JSON.stringify(
+      {
+        description: `Execution history for schedule "${task.name}"`,
+        scheduleId: task.id,
+        taskName: task.name,
+        total: page.total,
+        count: page.entries.length,
+        nextCursor:
+          page.nextOffset !== undefined ? String(page.nextOffset) : undefined,
+        history: page.entries,
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * Resource: jules://diagnostics
+   * Returns API client limits and counters, the scheduler queue and the storage backend.
+   * @returns A JSON string representing the server diagnostics.
+   */
+  async getDiagnostics(): Promise<string> {
+    return JSON.stringify(
+      {
+        description: 'Jules API client limits and counters since startup',
+        apiClient: this.client.getDiagnostics(),
+        scheduler: await this.scheduler.getQueueStatus(),
+        storage: this.storage.description,
+      },
+      null,
+      2
+    );
+  }
 }
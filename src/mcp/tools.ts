@@ -5,13 +5,78 @@
 
 import { z } from 'zod';
 import { randomUUID } from 'crypto';
-import type { JulesClient } from '../api/jules-client.js';
-import type { ScheduleStorage } from '../storage/schedule-store.js';
+import { JulesAPIError, type JulesClient } from '../api/jules-client.js';
+import {
+  isSourcePreflightEnabled,
+  preflightSource,
+  resolveBranch,
+} from '../api/source-preflight.js';
+import {
+  activitiesAfter,
+  decodeActivityCursor,
+  encodeActivityCursor,
+  type ActivityCache,
+} from '../api/activity-cache.js';
+import type { ScheduleRepository } from '../storage/repository.js';
 import { CronEngine } from '../scheduler/cron-engine.js';
+import {
+  buildManifest,
+  diffManifest,
+  parseManifest,
+  serializeManifest,
+  toManifestEntry,
+  type ScheduleDefinition,
+} from '../scheduler/schedule-manifest.js';
 import type { ScheduledTask } from '../types/schedule.js';
-import { RepositoryValidator, smartTruncate } from '../utils/security.js';
+import type { ApprovalPolicy } from '../types/approval.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type Activity,
+  type Session,
+  type SessionState,
+} from '../types/jules-api.js';
+import type { SessionWatcher } from '../watcher/session-watcher.js';
+import {
+  RepositoryValidator,
+  smartTruncate,
+  delay,
+} from '../utils/security.js';
+import { isValidTimezone } from '../utils/timezone.js';
+import { toTranscriptEntry } from '../utils/transcript.js';
 
 // Input validation schemas
+const ApprovalPolicySchema = z
+  .object({
+    allowed_paths: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Glob patterns every changed path must match'),
+    protected_paths: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Glob patterns no changed path may match (e.g., ".github/workflows/**")'),
+    max_files: z
+      .number()
+      .int()
+      .min(1, 'max_files must be at least 1')
+      .optional()
+      .describe('Maximum number of changed files'),
+    max_changed_lines: z
+      .number()
+      .int()
+      .min(1, 'max_changed_lines must be at least 1')
+      .optional()
+      .describe('Maximum number of added plus removed lines'),
+    rejection_message: z
+      .string()
+      .max(2000, 'Rejection message must not exceed 2,000 characters')
+      .optional()
+      .describe('Feedback sent to Jules when a plan is rejected'),
+  })
+  .describe(
+    'Automatically approve plans that satisfy every rule and reject the rest with feedback. Requires require_plan_approval=true.'
+  );
+
 export const CreateTaskSchema = z.object({
   prompt: z
     .string()
@@ -33,8 +98,10 @@ export const CreateTaskSchema = z.object({
   branch: z
     .string()
     .regex(/^[\w/-]+$/, 'Branch name contains invalid characters')
-    .default('main')
-    .describe('Git branch to base changes on'),
+    .optional()
+    .describe(
+      "Git branch to base changes on (default: the repository's default branch)"
+    ),
   auto_create_pr: z
     .boolean()
     .default(true)
@@ -50,6 +117,7 @@ export const CreateTaskSchema = z.object({
     .max(200, 'Title must not exceed 200 characters')
     .optional()
     .describe('Optional human-readable session title'),
+  approval_policy: ApprovalPolicySchema.optional(),
 });
 
 export const ManageSessionSchema = z.object({
@@ -58,7 +126,7 @@ export const ManageSessionSchema = z.object({
     .regex(/^[\w-]+$/, 'Session ID contains invalid characters')
     .describe('The ID of the session to manage'),
   action: z
-    .enum(['approve_plan', 'send_message'])
+    .enum(['approve_plan', 'send_message', 'cancel', 'delete'])
     .describe('Action to perform on the session'),
   message: z
     .string()
@@ -66,12 +134,155 @@ export const ManageSessionSchema = z.object({
     .max(5000, 'Message must not exceed 5,000 characters')
     .optional()
     .describe('Message content (required for send_message action)'),
+  confirm: z
+    .boolean()
+    .default(false)
+    .describe('Must be true for the cancel and delete actions, which cannot be undone'),
 });
 
 export const GetSessionStatusSchema = z.object({
   session_id: z.string().describe('The ID of the session to check'),
 });
 
+export const GetSessionUpdatesSchema = z.object({
+  session_id: z
+    .string()
+    .regex(/^[\w-]+$/, 'Session ID contains invalid characters')
+    .describe('The ID of the session'),
+  cursor: z
+    .string()
+    .min(1, 'Cursor cannot be empty')
+    .max(2000, 'Cursor must not exceed 2,000 characters')
+    .optional()
+    .describe(
+      'cursor from the previous call (or an activity name or ISO timestamp). Omit to get every activity.'
+    ),
+});
+
+export const ListSessionsSchema = z.object({
+  page_size: z
+    .number()
+    .int()
+    .min(1, 'page_size must be at least 1')
+    .max(100, 'page_size must not exceed 100')
+    .default(50)
+    .describe('Number of sessions per page'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('nextCursor from a previous list_sessions call'),
+});
+
+const SessionStateSchema = z.enum([
+  'SESSION_STATE_UNSPECIFIED',
+  'QUEUED',
+  'PLANNING',
+  'AWAITING_PLAN_APPROVAL',
+  'IN_PROGRESS',
+  'COMPLETED',
+  'FAILED',
+  'CANCELED',
+]);
+
+export const SearchSessionsSchema = z.object({
+  states: z
+    .array(SessionStateSchema)
+    .optional()
+    .describe('Only sessions in one of these states'),
+  source: z
+    .string()
+    .regex(
+      /^sources\/github\/[\w-]+\/[\w-]+$/,
+      'Source must be in format sources/github/owner/repo'
+    )
+    .optional()
+    .describe('Only sessions on this repository (sources/github/owner/repo)'),
+  created_after: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only sessions created at or after this ISO timestamp'),
+  created_before: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only sessions created before this ISO timestamp'),
+  updated_after: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only sessions updated at or after this ISO timestamp'),
+  updated_before: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe('Only sessions updated before this ISO timestamp'),
+  text: z
+    .string()
+    .min(1, 'Search text cannot be empty')
+    .max(200, 'Search text must not exceed 200 characters')
+    .optional()
+    .describe('Case-insensitive substring to find in the title or prompt'),
+  from_schedule: z
+    .boolean()
+    .optional()
+    .describe(
+      'true: only sessions spawned by a local schedule; false: only sessions that were not'
+    ),
+  max_results: z
+    .number()
+    .int()
+    .min(1, 'max_results must be at least 1')
+    .max(200, 'max_results must not exceed 200')
+    .default(50)
+    .describe('Maximum number of matches to return'),
+  max_scanned: z
+    .number()
+    .int()
+    .min(1, 'max_scanned must be at least 1')
+    .max(5000, 'max_scanned must not exceed 5000')
+    .default(1000)
+    .describe('Maximum number of sessions to inspect before giving up'),
+});
+
+export const WaitForSessionSchema = z.object({
+  session_id: z
+    .string()
+    .regex(/^[\w-]+$/, 'Session ID contains invalid characters')
+    .describe('The ID of the session to wait for'),
+  target_states: z
+    .array(SessionStateSchema)
+    .min(1, 'At least one target state is required')
+    .default([...TERMINAL_SESSION_STATES, 'AWAITING_PLAN_APPROVAL'])
+    .describe(
+      'States to wait for (default: COMPLETED, FAILED, CANCELED, AWAITING_PLAN_APPROVAL)'
+    ),
+  timeout_seconds: z
+    .number()
+    .int()
+    .min(1, 'timeout_seconds must be at least 1')
+    .max(3600, 'timeout_seconds must not exceed 3600')
+    .default(600)
+    .describe('Maximum time to wait'),
+  poll_interval_seconds: z
+    .number()
+    .int()
+    .min(2, 'poll_interval_seconds must be at least 2')
+    .max(300, 'poll_interval_seconds must not exceed 300')
+    .default(10)
+    .describe('Time between status checks'),
+});
+
+/**
+ * Request-scoped hooks for long-running tools.
+ */
+export interface ToolCallContext {
+  /** Aborts when the MCP client cancels the request */
+  signal?: AbortSignal;
+  /** Reports progress when the client supplied a progress token */
+  onProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
+
 export const ScheduleTaskSchema = z.object({
   task_name: z
     .string()
@@ -100,8 +311,10 @@ export const ScheduleTaskSchema = z.object({
   branch: z
     .string()
     .regex(/^[\w/-]+$/, 'Branch name contains invalid characters')
-    .default('main')
-    .describe('Git branch to target'),
+    .optional()
+    .describe(
+      "Git branch to target (default: the repository's default branch at each run)"
+    ),
   auto_create_pr: z
     .boolean()
     .default(true)
@@ -112,22 +325,148 @@ export const ScheduleTaskSchema = z.object({
     .describe('Whether to require manual plan approval'),
   timezone: z
     .string()
+    .refine(isValidTimezone, (val) => ({
+      message: `Unknown IANA timezone: ${val}`,
+    }))
     .optional()
-    .describe('Timezone for cron execution (e.g., "America/New_York")'),
+    .describe(
+      'IANA timezone for cron execution (e.g., "America/New_York"). Defaults to the server timezone.'
+    ),
+  misfire_policy: z
+    .enum(['skip', 'run_once', 'run_all'])
+    .default('skip')
+    .describe(
+      'What to do at startup with runs missed while the server was offline'
+    ),
+  misfire_max_runs: z
+    .number()
+    .int()
+    .min(1, 'misfire_max_runs must be at least 1')
+    .max(50, 'misfire_max_runs must not exceed 50')
+    .default(5)
+    .describe('Maximum number of catch-up runs for the run_all policy'),
+  overlap_policy: z
+    .enum(['allow', 'skip', 'queue', 'cancel_previous'])
+    .default('allow')
+    .describe(
+      'What to do when the schedule fires while its previous session is still running'
+    ),
+  approval_policy: ApprovalPolicySchema.optional(),
 });
 
 export const DeleteScheduleSchema = z.object({
   task_name: z.string().describe('Name of the scheduled task to delete'),
 });
 
+// Schedules can be referenced by name or ID
+const scheduleReference = {
+  task_name: z.string().optional().describe('Name of the scheduled task'),
+  schedule_id: z.string().optional().describe('ID of the scheduled task'),
+};
+
+const hasScheduleReference = (val: {
+  task_name?: string;
+  schedule_id?: string;
+}): boolean => Boolean(val.task_name || val.schedule_id);
+
+const scheduleReferenceMessage = 'Either task_name or schedule_id is required';
+
+export const UpdateScheduleSchema = ScheduleTaskSchema.pick({
+  cron_expression: true,
+  prompt: true,
+  branch: true,
+  auto_create_pr: true,
+  require_plan_approval: true,
+  timezone: true,
+  misfire_policy: true,
+  misfire_max_runs: true,
+  overlap_policy: true,
+  approval_policy: true,
+})
+  .partial()
+  .extend(scheduleReference)
+  .refine(hasScheduleReference, scheduleReferenceMessage);
+
+export const PauseScheduleSchema = z
+  .object(scheduleReference)
+  .refine(hasScheduleReference, scheduleReferenceMessage);
+
+export const ResumeScheduleSchema = PauseScheduleSchema;
+
+export const RunScheduleNowSchema = PauseScheduleSchema;
+
+export const CancelSessionsSchema = z
+  .object({
+    source: z
+      .string()
+      .regex(
+        /^sources\/github\/[\w-]+\/[\w-]+$/,
+        'Source must be in format sources/github/owner/repo'
+      )
+      .optional()
+      .describe('Cancel active sessions on this repository'),
+    ...scheduleReference,
+    confirm: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Must be true to cancel; otherwise the matching sessions are only listed'
+      ),
+    max_scanned: z
+      .number()
+      .int()
+      .min(1, 'max_scanned must be at least 1')
+      .max(5000, 'max_scanned must not exceed 5000')
+      .default(500)
+      .describe('Maximum number of sessions to inspect when matching by repository'),
+  })
+  .refine(
+    (val) => Boolean(val.source || hasScheduleReference(val)),
+    'Either source, task_name or schedule_id is required'
+  );
+
+export const ExportSchedulesSchema = z.object({
+  format: z
+    .enum(['yaml', 'json'])
+    .default('yaml')
+    .describe('Manifest format'),
+});
+
+// A manifest entry is a schedule_recurring_task call plus its enabled flag
+export const ScheduleManifestEntrySchema = ScheduleTaskSchema.extend({
+  enabled: z
+    .boolean()
+    .default(true)
+    .describe('Whether the schedule is active (false keeps it paused)'),
+});
+
+export const ImportSchedulesSchema = z.object({
+  manifest: z
+    .string()
+    .min(1, 'Manifest cannot be empty')
+    .max(1000000, 'Manifest must not exceed 1,000,000 characters')
+    .describe('YAML or JSON manifest, as produced by export_schedules'),
+  sync: z
+    .boolean()
+    .default(false)
+    .describe('Also delete schedules that are not in the manifest'),
+  dry_run: z
+    .boolean()
+    .default(false)
+    .describe('Report the changes without applying them'),
+});
+
 /**
  * Manages the available tools for the Jules MCP server.
  */
 export class JulesTools {
   constructor(
     private readonly client: JulesClient,
-    private readonly storage: ScheduleStorage,
-    private readonly scheduler: CronEngine
+    private readonly storage: ScheduleRepository,
+    private readonly scheduler: CronEngine,
+    private readonly watcher: SessionWatcher,
+    private readonly activityCache: ActivityCache,
+    private readonly logger: (message: string) => void = console.error
   ) {}
 
   /**
@@ -170,12 +509,27 @@ export class JulesTools {
       // SECURITY: Validate repository allowlist
       RepositoryValidator.validateRepository(args.source);
 
+      const approvalPolicy = this.toApprovalPolicy(
+        args.approval_policy,
+        args.require_plan_approval
+      );
+
+      const source = isSourcePreflightEnabled()
+        ? await preflightSource(this.client, args.source, this.logger)
+        : undefined;
+      const branch = await resolveBranch(
+        this.client,
+        args.source,
+        args.branch,
+        source
+      );
+
       const session = await this.client.createSession({
         prompt: args.prompt,
         sourceContext: {
           source: args.source,
           githubRepoContext: {
-            startingBranch: args.branch,
+            startingBranch: branch,
           },
         },
         automationMode: args.auto_create_pr
@@ -185,13 +539,18 @@ export class JulesTools {
         title: args.title,
       });
 
-      const statusMsg = args.require_plan_approval
-        ? 'Session created and waiting for plan approval. Use jules://sessions/{id}/full to review the plan, then call manage_session with action=approve_plan.'
-        : 'Session created and executing automatically.';
+      this.watcher.watch(session.id, { approvalPolicy }, session.state);
+
+      const statusMsg = approvalPolicy
+        ? 'Session created. Its plan will be approved or rejected automatically by the approval policy.'
+        : args.require_plan_approval
+          ? 'Session created and waiting for plan approval. Use jules://sessions/{id}/plan to review the plan, then call manage_session with action=approve_plan.'
+          : 'Session created and executing automatically.';
 
       return {
         sessionId: session.id,
         state: session.state,
+        branch,
         message: statusMsg,
         monitorUrl: `https://jules.google/sessions/${session.id}`,
       };
@@ -231,10 +590,88 @@ export class JulesTools {
         };
       }
 
+      if (!args.confirm) {
+        throw new Error(
+          `The ${args.action} action cannot be undone; call again with confirm=true`
+        );
+      }
+
+      if (args.action === 'cancel') {
+        const session = await this.client.cancelSession(args.session_id);
+        return {
+          message: 'Session canceled.',
+          newState: session.state ?? 'CANCELED',
+        };
+      }
+
+      if (args.action === 'delete') {
+        await this.client.deleteSession(args.session_id);
+        this.watcher.unwatch(args.session_id);
+        this.activityCache.evict(args.session_id);
+        return { message: 'Session deleted.', sessionId: args.session_id };
+      }
+
       throw new Error('Invalid action');
     });
   }
 
+  /**
+   * Tool: cancel_sessions
+   * Cancels every active session on a repository or spawned by a schedule.
+   * Without confirm, only lists the sessions that would be canceled.
+   * @param args - The arguments for canceling sessions.
+   * @returns A JSON string with the canceled sessions and any failures.
+   */
+  async cancelSessions(
+    args: z.infer<typeof CancelSessionsSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const task = hasScheduleReference(args)
+        ? await this.resolveSchedule(args)
+        : undefined;
+      const sessions = await this.findActiveSessions(
+        task,
+        args.source,
+        args.max_scanned
+      );
+
+      if (!args.confirm) {
+        return {
+          message: `${sessions.length} active session(s) match. Call again with confirm=true to cancel them.`,
+          dryRun: true,
+          sessions: sessions.map((session) => ({
+            id: session.id,
+            title: session.title || 'Untitled Task',
+            state: session.state || 'UNKNOWN',
+            repository: session.sourceContext.source,
+            created: session.createTime,
+            schedule: task?.name,
+          })),
+        };
+      }
+
+      const canceled: string[] = [];
+      const failed: Array<{ id: string; error: string }> = [];
+      for (const session of sessions) {
+        try {
+          await this.client.cancelSession(session.id);
+          canceled.push(session.id);
+        } catch (error) {
+          failed.push({
+            id: session.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      return {
+        message: `Canceled ${canceled.length} of ${sessions.length} active session(s)`,
+        canceled,
+        failed,
+      };
+    });
+  }
+
   /**
    * Tool: get_session_status
    * Polls for session status and returns current state.
@@ -259,6 +696,222 @@ export class JulesTools {
     });
   }
 
+  /**
+   * Tool: get_session_updates
+   * Returns the activities added since a cursor, from the activity cache.
+   * @param args - The arguments for getting session updates.
+   * @returns A JSON string with the session state, new activities and the next cursor.
+   */
+  async getSessionUpdates(
+    args: z.infer<typeof GetSessionUpdatesSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const position = args.cursor
+        ? decodeActivityCursor(args.cursor)
+        : undefined;
+
+      // Fetch the session first: if it had already finished, no activity can be missed
+      const session = await this.client.getSession(args.session_id);
+      const state = session.state ?? 'SESSION_STATE_UNSPECIFIED';
+      const activities = await this.activityCache.getActivities(
+        args.session_id,
+        TERMINAL_SESSION_STATES.includes(state)
+      );
+
+      const added = activitiesAfter(activities, position);
+      const entries = added.flatMap(
+        (activity) => toTranscriptEntry(activity) ?? []
+      );
+      const last = added.at(-1);
+
+      return {
+        sessionId: args.session_id,
+        state,
+        updated: session.updateTime,
+        count: entries.length,
+        activities: entries,
+        cursor: last
+          ? encodeActivityCursor({ name: last.name, timestamp: last.timestamp })
+          : args.cursor ?? encodeActivityCursor({}),
+        nextSteps: this.getNextStepsForState(state),
+      };
+    });
+  }
+
+  /**
+   * Tool: list_sessions
+   * Returns one page of sessions, most recent first.
+   * @param args - The arguments for listing sessions.
+   * @returns A JSON string with the page of sessions and the next cursor.
+   */
+  async listSessions(
+    args: z.infer<typeof ListSessionsSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const page = await this.client.listSessions(args.page_size, args.cursor);
+      const sessions = (page.sessions ?? []).map((session) => ({
+        id: session.id,
+        title: session.title || 'Untitled Task',
+        state: session.state || 'UNKNOWN',
+        prompt: smartTruncate(session.prompt, 100),
+        repository: session.sourceContext.source,
+        created: session.createTime,
+      }));
+
+      return {
+        count: sessions.length,
+        nextCursor: page.nextPageToken,
+        sessions,
+      };
+    });
+  }
+
+  /**
+   * Tool: search_sessions
+   * Walks session pages and returns compact summaries of those matching every filter.
+   * @param args - The search filters.
+   * @returns A JSON string with the matching sessions.
+   */
+  async searchSessions(
+    args: z.infer<typeof SearchSessionsSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const scheduled = await this.storage.getScheduledSessionIds();
+      const scheduleNames = new Map(
+        (await this.storage.listTasks()).map((task) => [task.id, task.name])
+      );
+
+      const time = (value?: string): number | undefined =>
+        value ? new Date(value).getTime() : undefined;
+      const createdAfter = time(args.created_after);
+      const createdBefore = time(args.created_before);
+      const updatedAfter = time(args.updated_after);
+      const updatedBefore = time(args.updated_before);
+      const needle = args.text?.toLowerCase();
+
+      const matches: Array<Record<string, unknown>> = [];
+      let scanned = 0;
+      let exhausted = true;
+
+      for await (const session of this.client.iterateSessions()) {
+        scanned++;
+
+        const created = time(session.createTime);
+        const updated = time(session.updateTime);
+
+        const scheduleId = scheduled.get(session.id);
+        const matchesAll =
+          (!args.states ||
+            args.states.includes(session.state ?? 'SESSION_STATE_UNSPECIFIED')) &&
+          (!args.source || session.sourceContext.source === args.source) &&
+          (createdAfter === undefined ||
+            (created !== undefined && created >= createdAfter)) &&
+          (createdBefore === undefined ||
+            (created !== undefined && created < createdBefore)) &&
+          (updatedAfter === undefined ||
+            (updated !== undefined && updated >= updatedAfter)) &&
+          (updatedBefore === undefined ||
+            (updated !== undefined && updated < updatedBefore)) &&
+          (!needle ||
+            (session.title ?? '').toLowerCase().includes(needle) ||
+            session.prompt.toLowerCase().includes(needle)) &&
+          (args.from_schedule === undefined ||
+            args.from_schedule === (scheduleId !== undefined));
+
+        if (matchesAll) {
+          matches.push({
+            id: session.id,
+            title: session.title || 'Untitled Task',
+            state: session.state || 'UNKNOWN',
+            repository: session.sourceContext.source,
+            prompt: smartTruncate(session.prompt, 80),
+            created: session.createTime,
+            updated: session.updateTime,
+            schedule: scheduleId ? scheduleNames.get(scheduleId) ?? scheduleId : undefined,
+          });
+        }
+
+        // Stop before the next session so no further page is requested
+        if (scanned >= args.max_scanned || matches.length >= args.max_results) {
+          exhausted = false;
+          break;
+        }
+      }
+
+      return {
+        count: matches.length,
+        scanned,
+        complete: exhausted,
+        sessions: matches,
+      };
+    });
+  }
+
+  /**
+   * Tool: wait_for_session
+   * Blocks until a session reaches one of the target states or the timeout elapses.
+   * @param args - The arguments for waiting on a session.
+   * @param context - Cancellation signal and progress reporter for the request.
+   * @returns A JSON string with the final session and activities that arrived while waiting.
+   */
+  async waitForSession(
+    args: z.infer<typeof WaitForSessionSchema>,
+    context: ToolCallContext = {}
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const targets: SessionState[] = args.target_states;
+      const startedAt = Date.now();
+      const deadline = startedAt + args.timeout_seconds * 1000;
+
+      const initial = await this.client.listAllActivities(args.session_id);
+      const seen = new Set(initial.map((activity) => activity.name));
+
+      let session = await this.client.getSession(args.session_id);
+      let timedOut = false;
+
+      while (!targets.includes(session.state ?? 'SESSION_STATE_UNSPECIFIED')) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          timedOut = true;
+          break;
+        }
+
+        await delay(
+          Math.min(args.poll_interval_seconds * 1000, remaining),
+          context.signal
+        );
+        session = await this.client.getSession(args.session_id);
+
+        await context.onProgress?.(
+          Math.round((Date.now() - startedAt) / 1000),
+          args.timeout_seconds,
+          `Session ${session.id} is ${session.state ?? 'UNKNOWN'}`
+        );
+      }
+
+      const final = await this.client.listAllActivities(args.session_id);
+      const newActivities: Activity[] = final.filter(
+        (activity) => !seen.has(activity.name)
+      );
+
+      return {
+        sessionId: session.id,
+        state: session.state,
+        reachedTarget: !timedOut,
+        timedOut,
+        elapsedSeconds: Math.round((Date.now() - startedAt) / 1000),
+        session: {
+          title: session.title,
+          prompt: session.prompt,
+          repository: session.sourceContext.source,
+          updated: session.updateTime,
+        },
+        newActivities,
+        nextSteps: this.getNextStepsForState(session.state || 'UNKNOWN'),
+      };
+    });
+  }
+
   /**
    * Tool: schedule_recurring_task
    * Schedules a task to run on a cron schedule.
@@ -270,7 +923,9 @@ export class JulesTools {
   ): Promise<string> {
     return this.executeWithErrorHandling(async () => {
       // Validate cron expression
-      if (!CronEngine.validateCronExpression(args.cron_expression)) {
+      if (
+        !CronEngine.validateCronExpression(args.cron_expression, args.timezone)
+      ) {
         throw new Error(
           `Invalid cron expression: ${args.cron_expression}. Format: minute hour day month weekday`
         );
@@ -287,36 +942,34 @@ export class JulesTools {
       // SECURITY: Validate repository allowlist
       RepositoryValidator.validateRepository(args.source);
 
+      // Catch a typo'd repository now rather than at the first firing
+      if (isSourcePreflightEnabled()) {
+        await preflightSource(this.client, args.source, this.logger);
+      }
+
       // Create scheduled task
       const task: ScheduledTask = {
         id: randomUUID(),
         name: args.task_name,
-        cron: args.cron_expression,
-        taskPayload: {
-          prompt: args.prompt,
-          source: args.source,
-          branch: args.branch,
-          automationMode: args.auto_create_pr
-            ? 'AUTO_CREATE_PR'
-            : 'AUTOMATION_MODE_UNSPECIFIED',
-          requirePlanApproval: args.require_plan_approval,
-        },
-        timezone: args.timezone,
+        ...this.toScheduleDefinition(args, true),
         createdAt: new Date().toISOString(),
-        enabled: true,
       };
 
       // Persist and schedule
       await this.storage.upsertTask(task);
       this.scheduler.scheduleTask(task);
 
-      const nextRun = this.scheduler.getNextInvocation(task.id);
+      const nextRun = this.scheduler.describeNextInvocation(task);
 
       return {
         message: `Task "${args.task_name}" scheduled successfully`,
         scheduleId: task.id,
         cron: args.cron_expression,
-        nextExecution: nextRun?.toISOString() || 'Unknown',
+        timezone: nextRun?.timezone,
+        branch: args.branch ?? 'repository default',
+        misfirePolicy: task.misfirePolicy,
+        nextExecution: nextRun?.utc || 'Unknown',
+        nextExecutionLocal: nextRun?.local,
       };
     });
   }
@@ -331,17 +984,23 @@ export class JulesTools {
       const tasks = await this.storage.listTasks();
 
       const formatted = tasks.map((task) => {
-        const nextRun = this.scheduler.getNextInvocation(task.id);
+        const nextRun = this.scheduler.describeNextInvocation(task);
         return {
           id: task.id,
           name: task.name,
           cron: task.cron,
+          timezone: task.timezone,
           enabled: task.enabled,
           repository: task.taskPayload.source,
           prompt: smartTruncate(task.taskPayload.prompt, 60),
-          nextRun: nextRun?.toISOString() || 'Not scheduled',
+          nextRun: nextRun?.utc || 'Not scheduled',
+          nextRunLocal: nextRun?.local,
           lastRun: task.lastRun || 'Never',
           lastSessionId: task.lastSessionId,
+          misfirePolicy: task.misfirePolicy ?? 'skip',
+          lastCatchUp: task.lastCatchUp,
+          overlapPolicy: task.overlapPolicy ?? 'allow',
+          lastOverlap: task.lastOverlap,
         };
       });
 
@@ -380,6 +1039,536 @@ export class JulesTools {
     });
   }
 
+  /**
+   * Tool: update_schedule
+   * Edits a schedule in place, keeping its ID and run metadata. Only the
+   * edited fields are written, so run metadata recorded meanwhile is kept.
+   * @param args - The arguments for updating a schedule.
+   * @returns A JSON string representing the update result.
+   */
+  async updateSchedule(
+    args: z.infer<typeof UpdateScheduleSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const task = await this.resolveSchedule(args);
+
+      const cron = args.cron_expression ?? task.cron;
+      const timezone = args.timezone ?? task.timezone;
+      if (!CronEngine.validateCronExpression(cron, timezone)) {
+        throw new Error(
+          `Invalid cron expression: ${cron}. Format: minute hour day month weekday`
+        );
+      }
+
+      const changes: Partial<ScheduledTask> = {
+        cron,
+        timezone,
+        taskPayload: {
+          ...task.taskPayload,
+          prompt: args.prompt ?? task.taskPayload.prompt,
+          branch: args.branch ?? task.taskPayload.branch,
+          automationMode:
+            args.auto_create_pr === undefined
+              ? task.taskPayload.automationMode
+              : args.auto_create_pr
+                ? 'AUTO_CREATE_PR'
+                : 'AUTOMATION_MODE_UNSPECIFIED',
+          requirePlanApproval:
+            args.require_plan_approval ?? task.taskPayload.requirePlanApproval,
+        },
+        misfirePolicy: args.misfire_policy ?? task.misfirePolicy,
+        misfireMaxRuns: args.misfire_max_runs ?? task.misfireMaxRuns,
+        overlapPolicy: args.overlap_policy ?? task.overlapPolicy,
+      };
+
+      const requirePlanApproval =
+        changes.taskPayload?.requirePlanApproval ?? false;
+      if (args.approval_policy) {
+        changes.approvalPolicy = this.toApprovalPolicy(
+          args.approval_policy,
+          requirePlanApproval
+        );
+      } else if (!requirePlanApproval) {
+        // A policy has nothing to act on without plan approval
+        changes.approvalPolicy = undefined;
+      }
+
+      // Persist and re-arm with the new settings
+      const updated = await this.storage.patchTask(task.id, changes);
+      if (!updated) {
+        throw new Error(`Schedule "${task.name}" was deleted`);
+      }
+      if (updated.enabled) {
+        await this.scheduler.rescheduleTask(updated);
+      }
+
+      const nextRun = this.scheduler.describeNextInvocation(updated);
+
+      return {
+        message: `Schedule "${updated.name}" updated successfully`,
+        scheduleId: updated.id,
+        cron: updated.cron,
+        timezone: nextRun?.timezone ?? updated.timezone,
+        enabled: updated.enabled,
+        nextExecution: nextRun?.utc || 'Not scheduled',
+        nextExecutionLocal: nextRun?.local,
+      };
+    });
+  }
+
+  /**
+   * Tool: pause_schedule
+   * Disables a schedule without deleting it.
+   * @param args - The arguments for pausing a schedule.
+   * @returns A JSON string representing the pause result.
+   */
+  async pauseSchedule(
+    args: z.infer<typeof PauseScheduleSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const task = await this.resolveSchedule(args);
+
+      if (!task.enabled) {
+        return { message: `Schedule "${task.name}" is already paused` };
+      }
+
+      this.scheduler.cancelTask(task.id);
+      await this.storage.patchTask(task.id, {
+        enabled: false,
+        pausedAt: new Date().toISOString(),
+      });
+
+      return {
+        message: `Schedule "${task.name}" paused`,
+        scheduleId: task.id,
+      };
+    });
+  }
+
+  /**
+   * Tool: resume_schedule
+   * Re-enables a paused schedule.
+   * @param args - The arguments for resuming a schedule.
+   * @returns A JSON string representing the resume result.
+   */
+  async resumeSchedule(
+    args: z.infer<typeof ResumeScheduleSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const task = await this.resolveSchedule(args);
+
+      if (task.enabled) {
+        return { message: `Schedule "${task.name}" is already active` };
+      }
+
+      const resumed = await this.storage.patchTask(task.id, {
+        enabled: true,
+        resumedAt: new Date().toISOString(),
+      });
+      if (!resumed) {
+        throw new Error(`Schedule "${task.name}" was deleted`);
+      }
+      await this.scheduler.rescheduleTask(resumed);
+
+      const nextRun = this.scheduler.describeNextInvocation(resumed);
+
+      return {
+        message: `Schedule "${task.name}" resumed`,
+        scheduleId: task.id,
+        nextExecution: nextRun?.utc || 'Unknown',
+        nextExecutionLocal: nextRun?.local,
+      };
+    });
+  }
+
+  /**
+   * Tool: run_schedule_now
+   * Fires a schedule once on demand. The run is admitted like a cron firing,
+   * so it may be queued by the concurrency limits or skipped by the
+   * schedule's overlap policy. Paused schedules can be run too.
+   * @param args - The arguments for running a schedule.
+   * @returns A JSON string representing the run result.
+   */
+  async runScheduleNow(
+    args: z.infer<typeof RunScheduleNowSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const task = await this.resolveSchedule(args);
+
+      const run = await this.scheduler.dispatchTask(task, 'manual');
+      if (!run) {
+        const current = await this.storage.getTask(task.id);
+        if (!current) {
+          return {
+            message: `Schedule "${task.name}" was deleted before it could run`,
+            scheduleId: task.id,
+            status: 'deleted',
+          };
+        }
+        return {
+          message: `Schedule "${task.name}" was skipped by its overlap policy`,
+          scheduleId: task.id,
+          status: 'skipped',
+          lastOverlap: current?.lastOverlap,
+        };
+      }
+      if ('enqueuedAt' in run) {
+        return {
+          message: `Schedule "${task.name}" queued: ${run.reason}`,
+          scheduleId: task.id,
+          status: 'queued',
+          queuedRunId: run.id,
+          reason: run.reason,
+        };
+      }
+      if (run.status === 'failed') {
+        throw new Error(
+          `Schedule "${task.name}" failed after ${run.attempts} attempts: ${run.error}`
+        );
+      }
+
+      return {
+        message: `Schedule "${task.name}" triggered manually`,
+        scheduleId: task.id,
+        status: 'started',
+        runId: run.id,
+        sessionId: run.sessionId,
+        state: run.sessionState,
+        attempts: run.attempts,
+        monitorUrl: `https://jules.google/sessions/${run.sessionId}`,
+      };
+    });
+  }
+
+  /**
+   * Tool: export_schedules
+   * Serializes every schedule to a declarative manifest keyed by name.
+   * @param args - The arguments for exporting schedules.
+   * @returns A JSON string containing the manifest text.
+   */
+  async exportSchedules(
+    args: z.infer<typeof ExportSchedulesSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const manifest = buildManifest(await this.storage.listTasks());
+
+      return {
+        format: args.format,
+        count: Object.keys(manifest.schedules).length,
+        manifest: serializeManifest(manifest, args.format),
+      };
+    });
+  }
+
+  /**
+   * Tool: import_schedules
+   * Applies a manifest: creates and updates schedules by name and, in sync
+   * mode, deletes schedules the manifest doesn't list. Every entry is
+   * validated before anything is changed.
+   * @param args - The arguments for importing schedules.
+   * @returns A JSON string describing the planned or applied changes.
+   */
+  async importSchedules(
+    args: z.infer<typeof ImportSchedulesSchema>
+  ): Promise<string> {
+    return this.executeWithErrorHandling(async () => {
+      const definitions = await this.validateManifest(
+        parseManifest(args.manifest)
+      );
+
+      const tasks = new Map<string, ScheduledTask>();
+      for (const task of await this.storage.listTasks()) {
+        if (!tasks.has(task.name)) {
+          tasks.set(task.name, task);
+        }
+      }
+
+      const diff = diffManifest(
+        Object.fromEntries(
+          [...tasks].map(([name, task]) => [name, toManifestEntry(task)])
+        ),
+        Object.fromEntries(
+          [...definitions].map(([name, definition]) => [
+            name,
+            toManifestEntry(definition),
+          ])
+        ),
+        args.sync
+      );
+
+      const summary = `${diff.create.length} create, ${diff.update.length} update, ${diff.delete.length} delete, ${diff.unchanged.length} unchanged`;
+      if (args.dry_run) {
+        return {
+          message: `Dry run (nothing changed): ${summary}`,
+          dryRun: true,
+          ...diff,
+        };
+      }
+
+      const now = new Date().toISOString();
+
+      for (const name of diff.create) {
+        const task: ScheduledTask = {
+          id: randomUUID(),
+          name,
+          ...definitions.get(name)!,
+          createdAt: now,
+        };
+        await this.storage.upsertTask(task);
+        if (task.enabled) {
+          this.scheduler.scheduleTask(task);
+        }
+      }
+
+      for (const { name } of diff.update) {
+        const task = tasks.get(name)!;
+        const changes: Partial<ScheduledTask> = { ...definitions.get(name)! };
+        if (changes.enabled !== task.enabled) {
+          if (changes.enabled) {
+            changes.resumedAt = now;
+          } else {
+            changes.pausedAt = now;
+          }
+        }
+
+        const updated = await this.storage.patchTask(task.id, changes);
+        if (!updated) {
+          continue;
+        }
+        if (updated.enabled) {
+          await this.scheduler.rescheduleTask(updated);
+        } else {
+          this.scheduler.cancelTask(updated.id);
+        }
+      }
+
+      for (const name of diff.delete) {
+        const task = tasks.get(name)!;
+        this.scheduler.cancelTask(task.id);
+        await this.storage.deleteTask(task.id);
+      }
+
+      return {
+        message: `Manifest applied: ${summary}`,
+        dryRun: false,
+        ...diff,
+      };
+    });
+  }
+
+  /**
+   * Helper: Validates every manifest entry the way schedule_recurring_task
+   * validates its arguments (schema, cron, repository allowlist, approval
+   * policy, and source preflight when enabled).
+   * @param entries - The raw manifest entries keyed by schedule name.
+   * @returns The schedule definitions keyed by name.
+   * @throws Error listing every invalid entry.
+   */
+  private async validateManifest(
+    entries: Record<string, unknown>
+  ): Promise<Map<string, ScheduleDefinition>> {
+    const definitions = new Map<string, ScheduleDefinition>();
+    const errors: string[] = [];
+
+    for (const [name, entry] of Object.entries(entries)) {
+      const parsed = ScheduleManifestEntrySchema.safeParse({
+        ...(typeof entry === 'object' ? entry : {}),
+        task_name: name,
+      });
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          errors.push(`${name}: ${issue.path.join('.')}: ${issue.message}`);
+        }
+        continue;
+      }
+
+      const args = parsed.data;
+      try {
+        if (
+          !CronEngine.validateCronExpression(args.cron_expression, args.timezone)
+        ) {
+          throw new Error(`Invalid cron expression: ${args.cron_expression}`);
+        }
+        // SECURITY: Validate repository allowlist
+        RepositoryValidator.validateRepository(args.source);
+        definitions.set(name, this.toScheduleDefinition(args, args.enabled));
+      } catch (error) {
+        errors.push(
+          `${name}: ${error instanceof Error ? error.message : 'Invalid schedule'}`
+        );
+      }
+    }
+
+    if (isSourcePreflightEnabled()) {
+      const sources = new Set(
+        [...definitions.values()].map(({ taskPayload }) => taskPayload.source)
+      );
+      for (const source of sources) {
+        try {
+          await preflightSource(this.client, source, this.logger);
+        } catch (error) {
+          const names = [...definitions]
+            .filter(([, definition]) => definition.taskPayload.source === source)
+            .map(([name]) => name);
+          errors.push(
+            `${names.join(', ')}: ${error instanceof Error ? error.message : 'Unknown source'}`
+          );
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(
+        `Manifest has invalid schedules; nothing was changed:\n${errors.join('\n')}`
+      );
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Helper: Converts schedule_recurring_task arguments to a schedule definition.
+   * @param args - The validated schedule arguments.
+   * @param enabled - Whether the schedule is active.
+   * @returns The declarative parts of the scheduled task.
+   * @throws Error if the approval policy is invalid.
+   */
+  private toScheduleDefinition(
+    args: z.infer<typeof ScheduleTaskSchema>,
+    enabled: boolean
+  ): ScheduleDefinition {
+    return {
+      cron: args.cron_expression,
+      taskPayload: {
+        prompt: args.prompt,
+        source: args.source,
+        branch: args.branch,
+        automationMode: args.auto_create_pr
+          ? 'AUTO_CREATE_PR'
+          : 'AUTOMATION_MODE_UNSPECIFIED',
+        requirePlanApproval: args.require_plan_approval,
+      },
+      timezone: args.timezone,
+      enabled,
+      misfirePolicy: args.misfire_policy,
+      misfireMaxRuns: args.misfire_max_runs,
+      overlapPolicy: args.overlap_policy,
+      approvalPolicy: this.toApprovalPolicy(
+        args.approval_policy,
+        args.require_plan_approval
+      ),
+    };
+  }
+
+  /**
+   * Helper: Converts a tool-level approval policy to the stored form.
+   * @param policy - The approval_policy argument (optional).
+   * @param requirePlanApproval - Whether the session pauses for plan approval.
+   * @returns The approval policy, or undefined if none was given.
+   * @throws Error if a policy is given without plan approval enabled.
+   */
+  private toApprovalPolicy(
+    policy: z.infer<typeof ApprovalPolicySchema> | undefined,
+    requirePlanApproval: boolean
+  ): ApprovalPolicy | undefined {
+    if (!policy) {
+      return undefined;
+    }
+
+    if (!requirePlanApproval) {
+      throw new Error(
+        'approval_policy requires require_plan_approval=true; without plan approval there is no plan to evaluate'
+      );
+    }
+
+    return {
+      allowedPaths: policy.allowed_paths,
+      protectedPaths: policy.protected_paths,
+      maxFiles: policy.max_files,
+      maxChangedLines: policy.max_changed_lines,
+      rejectionMessage: policy.rejection_message,
+    };
+  }
+
+  /**
+   * Helper: Looks up a schedule by ID or name.
+   * @param ref - The schedule reference (schedule_id takes precedence).
+   * @returns The matching scheduled task.
+   * @throws Error if no schedule matches.
+   */
+  private async resolveSchedule(ref: {
+    task_name?: string;
+    schedule_id?: string;
+  }): Promise<ScheduledTask> {
+    const task = ref.schedule_id
+      ? await this.storage.getTask(ref.schedule_id)
+      : await this.storage.getTaskByName(ref.task_name ?? '');
+
+    if (!task) {
+      throw new Error(
+        ref.schedule_id
+          ? `No schedule found with ID: ${ref.schedule_id}`
+          : `No schedule found with name: ${ref.task_name}`
+      );
+    }
+
+    return task;
+  }
+
+  /**
+   * Helper: Finds sessions that haven't reached a terminal state.
+   * Sessions of a schedule come from its run log and are checked one by
+   * one; otherwise the repository's sessions are scanned, newest first.
+   * @param task - Only sessions spawned by this schedule (optional).
+   * @param source - Only sessions on this repository (optional).
+   * @param maxScanned - Maximum number of sessions to inspect when scanning.
+   * @returns The active sessions.
+   */
+  private async findActiveSessions(
+    task: ScheduledTask | undefined,
+    source: string | undefined,
+    maxScanned: number
+  ): Promise<Session[]> {
+    const isActive = (session: Session): boolean =>
+      !TERMINAL_SESSION_STATES.includes(
+        session.state ?? 'SESSION_STATE_UNSPECIFIED'
+      ) && (!source || session.sourceContext.source === source);
+
+    const active: Session[] = [];
+
+    if (task) {
+      const scheduled = await this.storage.getScheduledSessionIds();
+      for (const [sessionId, scheduleId] of scheduled) {
+        if (scheduleId !== task.id) {
+          continue;
+        }
+        try {
+          const session = await this.client.getSession(sessionId);
+          if (isActive(session)) {
+            active.push(session);
+          }
+        } catch (error) {
+          // Sessions deleted since the run was logged are gone already
+          if (!(error instanceof JulesAPIError && error.statusCode === 404)) {
+            throw error;
+          }
+        }
+      }
+      return active;
+    }
+
+    let scanned = 0;
+    for await (const session of this.client.iterateSessions()) {
+      if (scanned++ >= maxScanned) {
+        break;
+      }
+      if (isActive(session)) {
+        active.push(session);
+      }
+    }
+    return active;
+  }
+
   /**
    * Helper: Provides guidance based on session state.
    * @param state - The current state of the session.
@@ -390,7 +1579,7 @@ export class JulesTools {
       QUEUED: 'Session is queued. Wait for it to start planning.',
       PLANNING: 'Jules is generating a plan. Wait for plan completion.',
       AWAITING_PLAN_APPROVAL:
-        'Plan is ready. Read jules://sessions/{id}/full to review the plan, then call manage_session with action=approve_plan to proceed.',
+        'Plan is ready. Read jules://sessions/{id}/plan to review the plan and its diffs, then call manage_session with action=approve_plan to proceed.',
       IN_PROGRESS:
         'Session is executing. Monitor progress via jules://sessions/{id}/full.',
       COMPLETED:
@@ -0,0 +1,214 @@
+/**
+ * Concurrency Limiter - Caps active Jules sessions started by the scheduler
+ * Active sessions are counted from the run log and confirmed with getSession,
+ * so sessions started before a restart still count
+ */
+
+import { JulesAPIError, type JulesClient } from '../api/jules-client.js';
+import type { ScheduleRepository } from '../storage/repository.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type SessionState,
+} from '../types/jules-api.js';
+
+/** Number of recent run records scanned for sessions that may still be active */
+const ACTIVE_SCAN_LIMIT = 200;
+
+/**
+ * Limits on concurrently active scheduler-started sessions (0 means unlimited).
+ */
+export interface ConcurrencyLimits {
+  /** Maximum active sessions across all repositories */
+  maxConcurrent: number;
+  /** Maximum active sessions per repository */
+  maxPerRepo: number;
+}
+
+/**
+ * A scheduler-started session that hasn't reached a terminal state.
+ */
+export interface ActiveSession {
+  sessionId: string;
+  scheduleId: string;
+  /** Repository resource name */
+  source: string;
+  state?: SessionState;
+}
+
+/**
+ * Active session counts used to decide whether a run may start.
+ */
+export interface ConcurrencySnapshot {
+  total: number;
+  bySource: Map<string, number>;
+}
+
+/**
+ * Reads the limits from JULES_SCHEDULER_MAX_CONCURRENT and
+ * JULES_SCHEDULER_MAX_PER_REPO. Both default to 0 (unlimited), so limits
+ * are opt-in.
+ * @returns The concurrency limits.
+ */
+export function getConcurrencyLimits(): ConcurrencyLimits {
+  return {
+    maxConcurrent: Number(process.env.JULES_SCHEDULER_MAX_CONCURRENT || 0),
+    maxPerRepo: Number(process.env.JULES_SCHEDULER_MAX_PER_REPO || 0),
+  };
+}
+
+/**
+ * Counts active scheduler-started sessions and checks them against the limits.
+ * Runs that are still creating their session are tracked as reservations.
+ */
+export class ConcurrencyLimiter {
+  readonly limits: ConcurrencyLimits;
+  private readonly reservations: string[] = [];
+
+  /**
+   * Creates an instance of ConcurrencyLimiter.
+   * @param storage - The schedule repository holding the run log.
+   * @param client - The client used to confirm session states.
+   */
+  constructor(
+    private readonly storage: ScheduleRepository,
+    private readonly client: JulesClient
+  ) {
+    this.limits = getConcurrencyLimits();
+  }
+
+  /**
+   * Whether any limit is configured.
+   */
+  get enabled(): boolean {
+    return this.limits.maxConcurrent > 0 || this.limits.maxPerRepo > 0;
+  }
+
+  /**
+   * Lists scheduler-started sessions that are still active.
+   * Sessions recorded as non-terminal are confirmed with getSession, and
+   * run records whose state changed are updated. Sessions whose state
+   * can't be fetched (other than 404) are counted as active.
+   * @returns The active sessions.
+   */
+  async listActive(): Promise<ActiveSession[]> {
+    const tasks = new Map(
+      (await this.storage.listTasks()).map((task) => [task.id, task])
+    );
+    const runs = await this.storage.listRecentRuns(ACTIVE_SCAN_LIMIT);
+    const active: ActiveSession[] = [];
+    const seen = new Set<string>();
+
+    for (const run of runs) {
+      if (!run.sessionId || seen.has(run.sessionId)) {
+        continue;
+      }
+      seen.add(run.sessionId);
+      if (
+        run.sessionState &&
+        TERMINAL_SESSION_STATES.includes(run.sessionState)
+      ) {
+        continue;
+      }
+
+      let state = run.sessionState;
+      let source = tasks.get(run.scheduleId)?.taskPayload.source;
+      try {
+        const session = await this.client.getSession(run.sessionId);
+        state = session.state;
+        source = session.sourceContext?.source ?? source;
+      } catch (error) {
+        if (error instanceof JulesAPIError && error.statusCode === 404) {
+          continue;
+        }
+      }
+
+      if (state && state !== run.sessionState) {
+        await this.storage.updateRunRecord(run.scheduleId, run.id, {
+          sessionState: state,
+        });
+      }
+      if (state && TERMINAL_SESSION_STATES.includes(state)) {
+        continue;
+      }
+
+      active.push({
+        sessionId: run.sessionId,
+        scheduleId: run.scheduleId,
+        source: source ?? 'unknown',
+        state,
+      });
+    }
+
+    return active;
+  }
+
+  /**
+   * Counts active sessions plus runs still creating their session.
+   * @returns The current counts (all zero when no limit is configured).
+   */
+  async snapshot(): Promise<ConcurrencySnapshot> {
+    const snapshot: ConcurrencySnapshot = { total: 0, bySource: new Map() };
+    if (!this.enabled) {
+      return snapshot;
+    }
+
+    const sources = [
+      ...(await this.listActive()).map((session) => session.source),
+      ...this.reservations,
+    ];
+    for (const source of sources) {
+      ConcurrencyLimiter.count(snapshot, source);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Checks whether a run for a repository may start.
+   * @param snapshot - The current counts.
+   * @param source - The repository resource name.
+   * @returns Why the run must wait, or undefined if it may start.
+   */
+  blockReason(
+    snapshot: ConcurrencySnapshot,
+    source: string
+  ): string | undefined {
+    const { maxConcurrent, maxPerRepo } = this.limits;
+    const forSource = snapshot.bySource.get(source) ?? 0;
+
+    if (maxPerRepo > 0 && forSource >= maxPerRepo) {
+      return `${forSource} active session(s) on ${source} (limit ${maxPerRepo} per repository)`;
+    }
+    if (maxConcurrent > 0 && snapshot.total >= maxConcurrent) {
+      return `${snapshot.total} active scheduled session(s) (global limit ${maxConcurrent})`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Holds a slot for a run until its session exists in the run log.
+   * @param snapshot - The counts to update for further decisions in this pass.
+   * @param source - The repository resource name.
+   * @returns A function that releases the slot.
+   */
+  reserve(snapshot: ConcurrencySnapshot, source: string): () => void {
+    ConcurrencyLimiter.count(snapshot, source);
+    this.reservations.push(source);
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.reservations.splice(this.reservations.indexOf(source), 1);
+      }
+    };
+  }
+
+  /**
+   * Adds one session to a snapshot.
+   * @param snapshot - The snapshot to update.
+   * @param source - The repository resource name.
+   */
+  private static count(snapshot: ConcurrencySnapshot, source: string): void {
+    snapshot.total++;
+    snapshot.bySource.set(source, (snapshot.bySource.get(source) ?? 0) + 1);
+  }
+}
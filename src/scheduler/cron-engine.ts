@@ -4,48 +4,103 @@
  */
 
 import schedule, { Job } from 'node-schedule';
-import type { ScheduledTask } from '../types/schedule.js';
-import type { JulesClient } from '../api/jules-client.js';
-import type { ScheduleStorage } from '../storage/schedule-store.js';
-import { retryWithBackoff } from '../utils/security.js';
+import cronParser from 'cron-parser';
+import { randomUUID } from 'crypto';
+import type {
+  NextExecution,
+  OverlapDecision,
+  QueuedRun,
+  RunTrigger,
+  ScheduledTask,
+  ScheduleRunRecord,
+} from '../types/schedule.js';
+import { JulesAPIError, type JulesClient } from '../api/jules-client.js';
+import { resolveBranch } from '../api/source-preflight.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type SessionState,
+} from '../types/jules-api.js';
+import type { ScheduleRepository } from '../storage/repository.js';
+import { formatInTimezone, getSystemTimezone } from '../utils/timezone.js';
+import { ConcurrencyLimiter, type ConcurrencyLimits } from './concurrency.js';
+
+/** Upper bound on missed firings counted per schedule at startup */
+const MAX_MISSED_SCAN = 1000;
+
+/** Default cap on catch-up runs for the run_all misfire policy */
+export const DEFAULT_MISFIRE_MAX_RUNS = 5;
+
+/**
+ * Concurrency limits and the runs waiting for a slot.
+ */
+export interface RunQueueStatus {
+  limits: ConcurrencyLimits;
+  /** How often the queue is rechecked while it isn't empty */
+  pollIntervalMs: number;
+  /** Queued runs, oldest first */
+  queued: QueuedRun[];
+}
 
 /**
  * Manages the scheduling and execution of cron jobs for Jules tasks.
  */
 export class CronEngine {
   private jobs: Map<string, Job> = new Map();
-  private readonly storage: ScheduleStorage;
+  /** Cron expression and timezone each job was armed with, by task ID */
+  private armedSpecs: Map<string, string> = new Map();
+  private readonly storage: ScheduleRepository;
   private readonly julesClient: JulesClient;
   private readonly logger: (message: string) => void;
+  private readonly onSessionCreated?: (run: ScheduleRunRecord) => void;
+  private readonly concurrency: ConcurrencyLimiter;
+  private readonly queuePollMs: number;
+  private readonly syncIntervalMs: number;
+  private queueTimer?: NodeJS.Timeout;
+  private syncTimer?: NodeJS.Timeout;
+  /** Serializes run admission so two firings can't take the same slot */
+  private admission: Promise<unknown> = Promise.resolve();
 
   /**
    * Creates an instance of CronEngine.
+   * How often jobs are re-synced with storage comes from
+   * JULES_SCHEDULER_SYNC_MS (default: 30000; 0 disables).
    * @param storage - The storage instance for scheduled tasks.
    * @param julesClient - The client for interacting with the Jules API.
    * @param logger - The logger function to use (defaults to console.log).
+   * @param onSessionCreated - Callback invoked after a run creates a session (optional).
    */
   constructor(
-    storage: ScheduleStorage,
+    storage: ScheduleRepository,
     julesClient: JulesClient,
-    logger: (message: string) => void = console.log
+    logger: (message: string) => void = console.log,
+    onSessionCreated?: (run: ScheduleRunRecord) => void
   ) {
     this.storage = storage;
     this.julesClient = julesClient;
     this.logger = logger;
+    this.onSessionCreated = onSessionCreated;
+    this.concurrency = new ConcurrencyLimiter(storage, julesClient);
+    this.queuePollMs = Number(process.env.JULES_SCHEDULER_QUEUE_POLL_MS || 60000);
+    this.syncIntervalMs = Number(process.env.JULES_SCHEDULER_SYNC_MS || 30000);
   }
 
   /**
    * Hydrates all schedules from storage on startup.
-   * Loads tasks from storage and schedules them if enabled.
+   * Loads tasks from storage, schedules them if enabled, starts runs left
+   * in the run queue, and applies each task's misfire policy to firings
+   * missed while the server was offline. Then keeps the jobs in sync with
+   * schedules changed by other processes.
    */
   async initialize(): Promise<void> {
     const tasks = await this.storage.listTasks();
     this.logger(`Loading ${tasks.length} scheduled tasks from storage...`);
 
+    const scheduled: ScheduledTask[] = [];
     for (const task of tasks) {
       if (task.enabled) {
         try {
           this.scheduleTask(task);
+          scheduled.push(task);
           this.logger(`✓ Scheduled: ${task.name} (${task.cron})`);
         } catch (error) {
           this.logger(
@@ -55,18 +110,191 @@ export class CronEngine {
       }
     }
 
+    try {
+      await this.processQueue();
+    } catch (error) {
+      this.logger(
+        `✗ Failed to process run queue: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    for (const task of scheduled) {
+      try {
+        await this.catchUpMissedRuns(task);
+      } catch (error) {
+        this.logger(
+          `✗ Catch-up failed for ${task.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (this.syncIntervalMs > 0) {
+      this.syncTimer = setInterval(() => {
+        // Also starts runs queued by other processes (e.g., the CLI)
+        this.syncTasks()
+          .then(() => this.processQueue())
+          .catch((error) => {
+            this.logger(
+              `✗ Failed to sync schedules: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+          });
+      }, this.syncIntervalMs);
+    }
+
     this.logger('Scheduler initialized.');
   }
 
+  /**
+   * Arms, re-arms or cancels jobs to match storage, so that schedules added,
+   * edited, paused or removed by another process (e.g., the CLI) take effect
+   * without a restart.
+   */
+  async syncTasks(): Promise<void> {
+    const tasks = await this.storage.listTasks();
+    const enabled = new Set<string>();
+
+    for (const task of tasks) {
+      if (!task.enabled) {
+        continue;
+      }
+      enabled.add(task.id);
+      if (this.armedSpecs.get(task.id) === CronEngine.describeSpec(task)) {
+        continue;
+      }
+      try {
+        this.scheduleTask(task);
+        this.logger(`✓ Scheduled: ${task.name} (${task.cron})`);
+      } catch (error) {
+        this.logger(
+          `✗ Failed to schedule ${task.name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    for (const taskId of [...this.jobs.keys()]) {
+      if (!enabled.has(taskId)) {
+        this.cancelTask(taskId);
+        this.logger(`Unscheduled paused or deleted schedule ${taskId}`);
+      }
+    }
+  }
+
+  /**
+   * Applies a task's misfire policy to firings missed since its last run.
+   * @param task - The task to catch up.
+   * @param now - The current time (defaults to now).
+   */
+  async catchUpMissedRuns(task: ScheduledTask, now = new Date()): Promise<void> {
+    const missed = CronEngine.getMissedOccurrences(task, now);
+    if (missed.length === 0) {
+      return;
+    }
+
+    const policy = task.misfirePolicy ?? 'skip';
+    const missedLabel = `${missed.length}${missed.length >= MAX_MISSED_SCAN ? '+' : ''}`;
+
+    let toRun: Date[] = [];
+    if (policy === 'run_once') {
+      toRun = [missed[missed.length - 1]];
+    } else if (policy === 'run_all') {
+      toRun = missed.slice(-(task.misfireMaxRuns ?? DEFAULT_MISFIRE_MAX_RUNS));
+    }
+
+    this.logger(
+      `Task "${task.name}" missed ${missedLabel} run(s) while offline (policy: ${policy}, catching up: ${toRun.length})`
+    );
+
+    let queued = 0;
+    for (const occurrence of toRun) {
+      const run = await this.dispatchTask(
+        task,
+        'catch_up',
+        occurrence.toISOString()
+      );
+      if (run && 'enqueuedAt' in run) {
+        queued++;
+      }
+    }
+
+    await this.storage.patchTask(task.id, {
+      lastCatchUp: {
+        at: now.toISOString(),
+        missed: missed.length,
+        executed: toRun.length - queued,
+        queued: queued || undefined,
+        policy,
+      },
+    });
+  }
+
+  /**
+   * Lists cron firings between a task's last run (or creation/resume) and now.
+   * Firings while a schedule was paused are not considered missed, nor are
+   * firings already handled by an earlier catch-up (including skipped ones).
+   * @param task - The task to inspect.
+   * @param now - The end of the window.
+   * @returns Missed firing times, oldest first (at most MAX_MISSED_SCAN).
+   */
+  static getMissedOccurrences(task: ScheduledTask, now: Date): Date[] {
+    const lastRun = new Date(task.lastRun ?? task.createdAt).getTime();
+    const resumed = task.resumedAt ? new Date(task.resumedAt).getTime() : 0;
+    const caughtUp = task.lastCatchUp
+      ? new Date(task.lastCatchUp.at).getTime()
+      : 0;
+    const since = new Date(Math.max(lastRun, resumed, caughtUp));
+    if (Number.isNaN(since.getTime()) || since >= now) {
+      return [];
+    }
+
+    const interval = cronParser.parseExpression(task.cron, {
+      currentDate: since,
+      endDate: now,
+      tz: task.timezone,
+    });
+
+    const missed: Date[] = [];
+    while (interval.hasNext() && missed.length < MAX_MISSED_SCAN) {
+      missed.push(interval.next().toDate());
+    }
+    return missed;
+  }
+
+  /**
+   * Computes a task's next cron firing without arming a job.
+   * @param task - The task to inspect.
+   * @param from - The time to search from (defaults to now).
+   * @returns The next firing time, or null if the expression is invalid.
+   */
+  static computeNextOccurrence(
+    task: ScheduledTask,
+    from = new Date()
+  ): Date | null {
+    try {
+      return cronParser
+        .parseExpression(task.cron, { currentDate: from, tz: task.timezone })
+        .next()
+        .toDate();
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Validates a cron expression.
    * @param expression - The cron expression to validate.
+   * @param timezone - The IANA timezone the expression is evaluated in (optional).
    * @returns True if the expression is valid, false otherwise.
    */
-  static validateCronExpression(expression: string): boolean {
+  static validateCronExpression(
+    expression: string,
+    timezone?: string
+  ): boolean {
     try {
       // Create job to test validity
-      const testJob = schedule.scheduleJob(expression, () => {});
+      const testJob = schedule.scheduleJob(
+        CronEngine.buildSpec(expression, timezone),
+        () => {}
+      );
 
       if (!testJob) {
         return false;
@@ -90,55 +318,463 @@ export class CronEngine {
     // Cancel existing job if present
     this.cancelTask(task.id);
 
-    // Create the job callback
-    const jobCallback = async () => {
-      const timestamp = new Date().toISOString();
-      this.logger(`[${timestamp}] Executing scheduled task: ${task.name}`);
+    // Schedule the job in the task's timezone (system timezone if unset)
+    const job = schedule.scheduleJob(
+      CronEngine.buildSpec(task.cron, task.timezone),
+      () =>
+        this.fireTask(task.id).catch((error) => {
+          this.logger(
+            `✗ Task "${task.name}" could not be started: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        })
+    );
 
-      try {
-        // Create Jules session with retry logic (3 attempts with exponential backoff)
-        const session = await retryWithBackoff(
-          () =>
-            this.julesClient.createSession({
-              prompt: task.taskPayload.prompt,
-              sourceContext: {
-                source: task.taskPayload.source,
-                githubRepoContext: {
-                  startingBranch: task.taskPayload.branch || 'main',
-                },
-              },
-              automationMode: task.taskPayload.automationMode,
-              requirePlanApproval: task.taskPayload.requirePlanApproval,
-              title: task.taskPayload.title,
-            }),
-          3, // maxRetries
-          2000 // 2 second base delay
+    if (!job) {
+      throw new Error(`Failed to create schedule for cron: ${task.cron}`);
+    }
+
+    this.jobs.set(task.id, job);
+    this.armedSpecs.set(task.id, CronEngine.describeSpec(task));
+  }
+
+  /**
+   * Handles a cron firing with the task as currently stored. A task that
+   * was paused or deleted by another process has its job canceled instead.
+   * @param taskId - The ID of the task that fired.
+   */
+  private async fireTask(taskId: string): Promise<void> {
+    const task = await this.storage.getTask(taskId);
+    if (!task?.enabled) {
+      this.cancelTask(taskId);
+      this.logger(
+        `Dropped firing of ${task ? `paused task "${task.name}"` : `deleted schedule ${taskId}`}`
+      );
+      return;
+    }
+    await this.dispatchTask(task, 'scheduled');
+  }
+
+  /**
+   * Starts a cron, catch-up or manual firing if the task's overlap policy
+   * and the concurrency limits allow it; otherwise skips it or adds it to the
+   * persistent run queue. A schedule keeps at most one queued cron firing,
+   * and firings queue behind earlier queued runs for the same repository
+   * while a concurrency limit is configured. The task is re-read from
+   * storage first, so edits since it was armed or loaded apply.
+   * @param task - The task that fired.
+   * @param trigger - How the run was triggered.
+   * @param scheduledFor - The missed firing this run replaces (catch-up runs only).
+   * @returns The run record if the task ran, the queue entry if it was
+   * queued, or undefined if the firing was dropped.
+   */
+  async dispatchTask(
+    task: ScheduledTask,
+    trigger: RunTrigger,
+    scheduledFor?: string
+  ): Promise<ScheduleRunRecord | QueuedRun | undefined> {
+    const stored = await this.storage.getTask(task.id);
+    // Manual runs may be requested for paused schedules
+    if (!stored || (!stored.enabled && trigger !== 'manual')) {
+      this.logger(
+        `Dropped ${trigger.replace('_', '-')} run of ${stored ? `paused task "${stored.name}"` : `deleted schedule ${task.id}`}`
+      );
+      return undefined;
+    }
+    const source = stored.taskPayload.source;
+
+    const admitted = await this.admit(async () => {
+      const queue = await this.storage.listQueuedRuns();
+      if (
+        trigger === 'scheduled' &&
+        queue.some(
+          (entry) =>
+            entry.scheduleId === stored.id && entry.trigger === 'scheduled'
+        )
+      ) {
+        this.logger(
+          `Task "${stored.name}" fired while its previous firing is still queued; skipping this firing`
         );
+        return undefined;
+      }
+
+      const overlap = await this.resolveOverlap(stored, false);
+      if (overlap.decision === 'skip') {
+        return undefined;
+      }
+
+      const waiting = this.concurrency.enabled
+        ? queue.filter((entry) => entry.source === source).length
+        : 0;
+      const snapshot = await this.concurrency.snapshot();
+      const reason =
+        overlap.reason ??
+        (waiting > 0
+          ? `waiting behind ${waiting} queued run(s) for ${source}`
+          : this.concurrency.blockReason(snapshot, source));
+
+      if (reason) {
+        const entry: QueuedRun = {
+          id: randomUUID(),
+          scheduleId: stored.id,
+          source,
+          trigger,
+          scheduledFor,
+          enqueuedAt: new Date().toISOString(),
+          reason,
+        };
+        await this.storage.enqueueRun(entry);
+        this.logger(`⏸ Task "${stored.name}" queued: ${reason}`);
+        this.scheduleQueueCheck();
+        return entry;
+      }
+
+      return this.concurrency.reserve(snapshot, source);
+    });
+
+    if (typeof admitted !== 'function') {
+      return admitted;
+    }
+    try {
+      return await this.executeTask(stored, trigger, scheduledFor);
+    } finally {
+      admitted();
+    }
+  }
 
+  /**
+   * Starts queued runs, oldest first, while the concurrency limits allow.
+   * Runs of deleted schedules, and cron or catch-up runs of paused ones,
+   * are dropped. Called on startup, periodically while the queue isn't
+   * empty, and when a session finishes.
+   */
+  async processQueue(): Promise<void> {
+    const started = await this.admit(async () => {
+      const queue = await this.storage.listQueuedRuns();
+      if (queue.length === 0) {
+        return [];
+      }
+
+      const snapshot = await this.concurrency.snapshot();
+      const blockedSources = new Set<string>();
+      const ready: Array<{
+        entry: QueuedRun;
+        task: ScheduledTask;
+        release: () => void;
+      }> = [];
+
+      for (const entry of queue) {
+        const task = await this.storage.getTask(entry.scheduleId);
+        // Manual runs may be requested for paused schedules
+        if (!task || (!task.enabled && entry.trigger !== 'manual')) {
+          await this.storage.dequeueRun(entry.id);
+          this.logger(
+            `Dropped queued run of ${task ? `paused task "${task.name}"` : `deleted schedule ${entry.scheduleId}`}`
+          );
+          continue;
+        }
+
+        // Waiting on its own previous session doesn't hold up other schedules
+        const overlap = await this.resolveOverlap(task, true);
+        if (overlap.decision !== 'run') {
+          if (overlap.decision === 'skip') {
+            await this.storage.dequeueRun(entry.id);
+          }
+          continue;
+        }
+
+        // Keep runs for the same repository in order
+        if (
+          blockedSources.has(entry.source) ||
+          this.concurrency.blockReason(snapshot, entry.source)
+        ) {
+          blockedSources.add(entry.source);
+          continue;
+        }
+
+        await this.storage.dequeueRun(entry.id);
+        ready.push({
+          entry,
+          task,
+          release: this.concurrency.reserve(snapshot, entry.source),
+        });
+      }
+
+      if (ready.length < queue.length) {
+        this.scheduleQueueCheck();
+      }
+      return ready;
+    });
+
+    await Promise.all(
+      started.map(async ({ entry, task, release }) => {
         this.logger(
-          `✓ Task "${task.name}" created session: ${session.id}`
+          `▶ Starting queued run of "${task.name}" (queued at ${entry.enqueuedAt})`
         );
+        try {
+          await this.executeTask(
+            task,
+            entry.trigger,
+            entry.scheduledFor,
+            entry.enqueuedAt
+          );
+        } finally {
+          release();
+        }
+      })
+    );
+  }
 
-        // Update last run metadata
-        await this.storage.updateLastRun(task.id, timestamp, session.id);
-      } catch (error) {
+  /**
+   * Gets the concurrency limits and the queued runs.
+   * @returns The run queue status.
+   */
+  async getQueueStatus(): Promise<RunQueueStatus> {
+    return {
+      limits: this.concurrency.limits,
+      pollIntervalMs: this.queuePollMs,
+      queued: await this.storage.listQueuedRuns(),
+    };
+  }
+
+  /**
+   * Applies a task's overlap policy if its previous session is still running.
+   * Decisions are logged and stored on the task as lastOverlap.
+   * @param task - The task that fired.
+   * @param queued - Whether the firing is already in the run queue.
+   * @returns Whether to run the firing now, skip it, or wait in the run
+   * queue (with the reason).
+   */
+  private async resolveOverlap(
+    task: ScheduledTask,
+    queued: boolean
+  ): Promise<{ decision: 'run' | 'skip' | 'wait'; reason?: string }> {
+    const policy = task.overlapPolicy ?? 'allow';
+    if (policy === 'allow') {
+      return { decision: 'run' };
+    }
+
+    const previous = await this.findRunningSession(task);
+    if (!previous) {
+      return { decision: 'run' };
+    }
+
+    const decision: OverlapDecision = {
+      at: new Date().toISOString(),
+      policy,
+      previousSessionId: previous.id,
+      previousState: previous.state,
+      action: 'skipped',
+    };
+    const running = `previous session ${previous.id} is ${previous.state}`;
+
+    if (policy === 'queue') {
+      if (!queued) {
+        decision.action = 'queued';
+        await this.storage.patchTask(task.id, { lastOverlap: decision });
+      }
+      return { decision: 'wait', reason: `${running} (overlap policy: queue)` };
+    }
+
+    if (policy === 'cancel_previous') {
+      try {
+        await this.julesClient.cancelSession(previous.id);
+        decision.action = 'canceled_previous';
         this.logger(
-          `✗ Task "${task.name}" failed after 3 retries: ${error instanceof Error ? error.message : 'Unknown error'}`
+          `Task "${task.name}": canceled previous session ${previous.id} (was ${previous.state}) before starting`
         );
+        await this.storage.patchTask(task.id, { lastOverlap: decision });
+        return { decision: 'run' };
+      } catch (error) {
+        decision.error =
+          error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
 
-        // Update last run even on failure for audit trail
-        await this.storage.updateLastRun(task.id, timestamp, undefined);
+    this.logger(
+      decision.error
+        ? `✗ Task "${task.name}" skipped: could not cancel ${running}: ${decision.error}`
+        : `Task "${task.name}" skipped: ${running} (overlap policy: skip)`
+    );
+    await this.storage.patchTask(task.id, { lastOverlap: decision });
+    return { decision: 'skip' };
+  }
+
+  /**
+   * Finds a task's most recent session and checks whether it is still running.
+   * Uses lastSessionId, or the newest run with a session if the last run failed.
+   * @param task - The task to check.
+   * @returns The running session, or undefined if none is running or its
+   * state can't be fetched.
+   */
+  private async findRunningSession(
+    task: ScheduledTask
+  ): Promise<{ id: string; state: SessionState } | undefined> {
+    const sessionId =
+      task.lastSessionId ??
+      (await this.storage.getRunHistory(task.id, 0, 10)).entries.find(
+        (run) => run.sessionId
+      )?.sessionId;
+    if (!sessionId) {
+      return undefined;
+    }
+
+    let state: SessionState | undefined;
+    try {
+      state = (await this.julesClient.getSession(sessionId)).state;
+    } catch (error) {
+      if (!(error instanceof JulesAPIError && error.statusCode === 404)) {
+        this.logger(
+          `Could not check previous session ${sessionId} of "${task.name}" (${error instanceof Error ? error.message : 'Unknown error'}); starting anyway`
+        );
       }
-    };
+      return undefined;
+    }
 
-    // Schedule the job
-    const job = schedule.scheduleJob(task.cron, jobCallback);
+    return state && !TERMINAL_SESSION_STATES.includes(state)
+      ? { id: sessionId, state }
+      : undefined;
+  }
 
-    if (!job) {
-      throw new Error(`Failed to create schedule for cron: ${task.cron}`);
+  /**
+   * Runs an admission decision after any decision already in progress.
+   * @param decide - Decides whether runs may start.
+   * @returns The decision's result.
+   */
+  private admit<T>(decide: () => Promise<T>): Promise<T> {
+    const decision = this.admission.then(decide);
+    this.admission = decision.catch(() => undefined);
+    return decision;
+  }
+
+  /**
+   * Arms a one-off timer to recheck the run queue, if none is armed.
+   */
+  private scheduleQueueCheck(): void {
+    if (this.queueTimer) {
+      return;
     }
+    this.queueTimer = setTimeout(() => {
+      this.queueTimer = undefined;
+      this.processQueue().catch((error) => {
+        this.logger(
+          `✗ Failed to process run queue: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      });
+    }, this.queuePollMs);
+  }
 
-    this.jobs.set(task.id, job);
+  /**
+   * Runs a task's job body: creates a Jules session with retries, then
+   * records last-run metadata and appends an entry to the run log.
+   * Used by cron firings, startup catch-up and manual triggers alike.
+   * @param task - The task to execute.
+   * @param trigger - How the run was triggered.
+   * @param scheduledFor - The missed firing this run replaces (catch-up runs only).
+   * @param queuedAt - When the firing was queued (queued runs only).
+   * @returns The run record appended to the task's run log.
+   */
+  async executeTask(
+    task: ScheduledTask,
+    trigger: RunTrigger,
+    scheduledFor?: string,
+    queuedAt?: string
+  ): Promise<ScheduleRunRecord> {
+    const timestamp = new Date().toISOString();
+    const label = trigger.replace('_', '-');
+    this.logger(`[${timestamp}] Executing ${label} task: ${task.name}`);
+
+    let attempts = 0;
+    let record: ScheduleRunRecord;
+
+    try {
+      // A transient failure to read the source reuses the branch of the
+      // last successful run rather than JULES_DEFAULT_BRANCH
+      const lastKnown = task.taskPayload.branch
+        ? undefined
+        : (await this.storage.getRunHistory(task.id, 0, 10)).entries.find(
+            (run) => run.startingBranch
+          )?.startingBranch;
+      const branch = await resolveBranch(
+        this.julesClient,
+        task.taskPayload.source,
+        task.taskPayload.branch,
+        undefined,
+        lastKnown
+      );
+
+      // The client retries 429, 5xx and connect failures
+      attempts = 1;
+      const session = await this.julesClient.createSession({
+        prompt: task.taskPayload.prompt,
+        sourceContext: {
+          source: task.taskPayload.source,
+          githubRepoContext: {
+            startingBranch: branch,
+          },
+        },
+        automationMode: task.taskPayload.automationMode,
+        requirePlanApproval: task.taskPayload.requirePlanApproval,
+        title: task.taskPayload.title,
+      });
+
+      this.logger(
+        `✓ Task "${task.name}" created session: ${session.id}`
+      );
+
+      // Manual runs don't advance lastRun, which would hide firings that
+      // are still due for catch-up
+      if (trigger === 'manual') {
+        await this.storage.patchTask(task.id, { lastSessionId: session.id });
+      } else {
+        await this.storage.updateLastRun(task.id, timestamp, session.id);
+      }
+      record = {
+        id: randomUUID(),
+        scheduleId: task.id,
+        triggeredAt: timestamp,
+        trigger,
+        scheduledFor,
+        queuedAt,
+        finishedAt: new Date().toISOString(),
+        attempts,
+        status: 'success',
+        sessionId: session.id,
+        startingBranch: branch,
+        sessionState: session.state,
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof JulesAPIError) {
+        attempts = error.attempts;
+      }
+      this.logger(
+        `✗ Task "${task.name}" failed after ${attempts} attempts: ${message}`
+      );
+
+      // Update last run even on failure for audit trail
+      if (trigger !== 'manual') {
+        await this.storage.updateLastRun(task.id, timestamp, undefined);
+      }
+      record = {
+        id: randomUUID(),
+        scheduleId: task.id,
+        triggeredAt: timestamp,
+        trigger,
+        scheduledFor,
+        queuedAt,
+        finishedAt: new Date().toISOString(),
+        attempts,
+        status: 'failed',
+        error: message,
+      };
+    }
+
+    await this.storage.appendRunRecord(record);
+    if (record.status === 'success') {
+      this.onSessionCreated?.(record);
+    }
+    return record;
   }
 
   /**
@@ -151,6 +787,7 @@ export class CronEngine {
       job.cancel();
       this.jobs.delete(taskId);
     }
+    this.armedSpecs.delete(taskId);
   }
 
   /**
@@ -163,7 +800,55 @@ export class CronEngine {
     if (!job) {
       return null;
     }
-    return job.nextInvocation();
+    // node-schedule hands back a CronDate for cron rules; normalize to Date
+    const next = job.nextInvocation();
+    return next ? new Date(next.getTime()) : null;
+  }
+
+  /**
+   * Describes the next execution of a task in UTC and in its local timezone.
+   * Enabled tasks not armed in this process (e.g. when inspected from the
+   * CLI) are described from their cron expression.
+   * @param task - The task to describe.
+   * @returns The next execution times, or null if the task is not scheduled.
+   */
+  describeNextInvocation(task: ScheduledTask): NextExecution | null {
+    const next =
+      this.getNextInvocation(task.id) ??
+      (task.enabled ? CronEngine.computeNextOccurrence(task) : null);
+    if (!next) {
+      return null;
+    }
+    const timezone = task.timezone || getSystemTimezone();
+    return {
+      utc: next.toISOString(),
+      local: formatInTimezone(next, timezone),
+      timezone,
+    };
+  }
+
+  /**
+   * Builds a node-schedule spec for a cron expression.
+   * A timezone makes node-schedule evaluate the expression in that zone,
+   * including DST transitions, instead of in the system timezone.
+   * @param cron - The cron expression.
+   * @param timezone - The IANA timezone (optional).
+   * @returns The spec to pass to schedule.scheduleJob.
+   */
+  private static buildSpec(
+    cron: string,
+    timezone?: string
+  ): string | { rule: string; tz: string } {
+    return timezone ? { rule: cron, tz: timezone } : cron;
+  }
+
+  /**
+   * Describes what a task's job is armed with, to detect edits.
+   * @param task - The task.
+   * @returns The cron expression and timezone.
+   */
+  private static describeSpec(task: ScheduledTask): string {
+    return `${task.cron} ${task.timezone ?? ''}`;
   }
 
   /**
@@ -180,11 +865,16 @@ export class CronEngine {
    */
   shutdown(): void {
     this.logger('Shutting down scheduler...');
+    clearTimeout(this.queueTimer);
+    this.queueTimer = undefined;
+    clearInterval(this.syncTimer);
+    this.syncTimer = undefined;
     for (const [taskId, job] of this.jobs.entries()) {
       job.cancel();
       this.logger(`Canceled job: ${taskId}`);
     }
     this.jobs.clear();
+    this.armedSpecs.clear();
     schedule.gracefulShutdown();
   }
 }
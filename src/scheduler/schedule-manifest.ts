@@ -0,0 +1,240 @@
+/**
+ * Schedule Manifest - Declarative YAML/JSON files of scheduled tasks keyed by name
+ * Lets schedules live in version control and be applied with import_schedules
+ */
+
+import { parse, stringify } from 'yaml';
+import type {
+  MisfirePolicy,
+  OverlapPolicy,
+  ScheduledTask,
+} from '../types/schedule.js';
+import { DEFAULT_MISFIRE_MAX_RUNS } from './cron-engine.js';
+
+/** Manifest format version written by export_schedules */
+export const MANIFEST_VERSION = 1;
+
+/** Serialization formats for manifests */
+export type ManifestFormat = 'yaml' | 'json';
+
+/**
+ * The declarative parts of a scheduled task.
+ * Runtime state (IDs, last run, catch-up results) is never part of a manifest.
+ */
+export type ScheduleDefinition = Pick<
+  ScheduledTask,
+  | 'cron'
+  | 'timezone'
+  | 'taskPayload'
+  | 'enabled'
+  | 'misfirePolicy'
+  | 'misfireMaxRuns'
+  | 'overlapPolicy'
+  | 'approvalPolicy'
+>;
+
+/**
+ * A schedule as written in a manifest. Field names match the
+ * schedule_recurring_task arguments; the task name is the manifest key.
+ */
+export interface ScheduleManifestEntry {
+  cron_expression: string;
+  timezone?: string;
+  prompt: string;
+  source: string;
+  branch?: string;
+  auto_create_pr: boolean;
+  require_plan_approval: boolean;
+  misfire_policy: MisfirePolicy;
+  misfire_max_runs: number;
+  overlap_policy: OverlapPolicy;
+  approval_policy?: {
+    allowed_paths?: string[];
+    protected_paths?: string[];
+    max_files?: number;
+    max_changed_lines?: number;
+    rejection_message?: string;
+  };
+  enabled: boolean;
+}
+
+/**
+ * A manifest file: every schedule keyed by its name.
+ */
+export interface ScheduleManifest {
+  version: number;
+  schedules: Record<string, ScheduleManifestEntry>;
+}
+
+/**
+ * Changes needed to make storage match a manifest.
+ */
+export interface ManifestDiff {
+  /** Names of schedules only in the manifest */
+  create: string[];
+  /** Schedules whose definition differs, with the differing fields */
+  update: Array<{ name: string; fields: string[] }>;
+  /** Names of schedules not in the manifest (sync mode only) */
+  delete: string[];
+  /** Names of schedules that already match */
+  unchanged: string[];
+}
+
+/**
+ * Converts a schedule to its manifest form, filling in defaults so that
+ * equivalent schedules always serialize identically.
+ * @param definition - The schedule (or its declarative parts).
+ * @returns The manifest entry.
+ */
+export function toManifestEntry(
+  definition: ScheduleDefinition
+): ScheduleManifestEntry {
+  const { taskPayload, approvalPolicy } = definition;
+
+  return withoutUndefined({
+    cron_expression: definition.cron,
+    timezone: definition.timezone,
+    prompt: taskPayload.prompt,
+    source: taskPayload.source,
+    branch: taskPayload.branch,
+    auto_create_pr: taskPayload.automationMode === 'AUTO_CREATE_PR',
+    require_plan_approval: taskPayload.requirePlanApproval ?? false,
+    misfire_policy: definition.misfirePolicy ?? 'skip',
+    misfire_max_runs: definition.misfireMaxRuns ?? DEFAULT_MISFIRE_MAX_RUNS,
+    overlap_policy: definition.overlapPolicy ?? 'allow',
+    approval_policy: approvalPolicy
+      ? withoutUndefined({
+          allowed_paths: approvalPolicy.allowedPaths,
+          protected_paths: approvalPolicy.protectedPaths,
+          max_files: approvalPolicy.maxFiles,
+          max_changed_lines: approvalPolicy.maxChangedLines,
+          rejection_message: approvalPolicy.rejectionMessage,
+        })
+      : undefined,
+    enabled: definition.enabled,
+  });
+}
+
+/**
+ * Builds a manifest from stored schedules, sorted by name for stable diffs.
+ * @param tasks - The scheduled tasks.
+ * @returns The manifest.
+ */
+export function buildManifest(tasks: ScheduledTask[]): ScheduleManifest {
+  const sorted = [...tasks].sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    version: MANIFEST_VERSION,
+    schedules: Object.fromEntries(
+      sorted.map((task) => [task.name, toManifestEntry(task)])
+    ),
+  };
+}
+
+/**
+ * Serializes a manifest.
+ * @param manifest - The manifest.
+ * @param format - The output format.
+ * @returns The manifest text.
+ */
+export function serializeManifest(
+  manifest: ScheduleManifest,
+  format: ManifestFormat
+): string {
+  return format === 'json'
+    ? `${JSON.stringify(manifest, null, 2)}\n`
+    : stringify(manifest, { lineWidth: 0 });
+}
+
+/**
+ * Parses manifest text. JSON is accepted as well, since it is valid YAML.
+ * Entries are returned unvalidated.
+ * @param text - The manifest text.
+ * @returns The raw entries keyed by schedule name.
+ * @throws Error if the text isn't a manifest or has an unsupported version.
+ */
+export function parseManifest(text: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid schedule manifest: ${error instanceof Error ? error.message : 'parse error'}`
+    );
+  }
+
+  if (!isRecord(parsed) || !isRecord(parsed.schedules)) {
+    throw new Error(
+      'Invalid schedule manifest: expected a "schedules" map keyed by schedule name'
+    );
+  }
+
+  const version = parsed.version ?? MANIFEST_VERSION;
+  if (version !== MANIFEST_VERSION) {
+    throw new Error(
+      `Unsupported schedule manifest version ${String(version)} (expected ${MANIFEST_VERSION})`
+    );
+  }
+
+  return parsed.schedules;
+}
+
+/**
+ * Compares stored schedules with a manifest.
+ * @param current - Manifest entries of the stored schedules, keyed by name.
+ * @param desired - Manifest entries from the file, keyed by name.
+ * @param sync - Whether schedules missing from the file are deleted.
+ * @returns The changes needed to apply the manifest.
+ */
+export function diffManifest(
+  current: Record<string, ScheduleManifestEntry>,
+  desired: Record<string, ScheduleManifestEntry>,
+  sync: boolean
+): ManifestDiff {
+  const diff: ManifestDiff = { create: [], update: [], delete: [], unchanged: [] };
+
+  for (const [name, entry] of Object.entries(desired)) {
+    const existing = current[name];
+    if (!existing) {
+      diff.create.push(name);
+      continue;
+    }
+
+    const keys = new Set([...Object.keys(existing), ...Object.keys(entry)]);
+    const fields = [...keys].filter(
+      (key) =>
+        JSON.stringify(existing[key as keyof ScheduleManifestEntry]) !==
+        JSON.stringify(entry[key as keyof ScheduleManifestEntry])
+    );
+    if (fields.length > 0) {
+      diff.update.push({ name, fields });
+    } else {
+      diff.unchanged.push(name);
+    }
+  }
+
+  if (sync) {
+    diff.delete = Object.keys(current).filter((name) => !(name in desired));
+  }
+
+  return diff;
+}
+
+/**
+ * Checks whether a parsed value is a plain object.
+ * @param value - The value to check.
+ * @returns True if the value is a non-array object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drops undefined properties so they don't appear in output or diffs.
+ * @param value - The object to clean.
+ * @returns A copy without undefined properties.
+ */
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+}
@@ -0,0 +1,45 @@
+/**
+ * Storage Factory - Selects the schedule repository backend
+ * Configured via JULES_STORAGE and JULES_STORAGE_DIR
+ */
+
+import { join, resolve } from 'path';
+import { getStorageDir, type ScheduleRepository } from './repository.js';
+import { ScheduleStorage } from './schedule-store.js';
+import { SqliteScheduleStorage } from './sqlite-store.js';
+
+/**
+ * Creates the repository selected by a storage spec.
+ * - `json` (default): `schedules.json` in the storage directory
+ * - `json:/path/to/schedules.json`: a JSON file at the given path
+ * - `sqlite`: `schedules.db` in the storage directory
+ * - `sqlite:/path/to/schedules.db`: a SQLite database at the given path
+ * @param spec - The storage spec (defaults to JULES_STORAGE).
+ * @param logger - The logger function for storage maintenance messages (defaults to console.error).
+ * @returns The repository.
+ * @throws Error if the backend is unknown.
+ */
+export function createScheduleRepository(
+  spec = process.env.JULES_STORAGE || 'json',
+  logger: (message: string) => void = console.error
+): ScheduleRepository {
+  const separator = spec.indexOf(':');
+  const backend = separator === -1 ? spec : spec.slice(0, separator);
+  const location = separator === -1 ? '' : spec.slice(separator + 1);
+
+  switch (backend) {
+    case 'json':
+      return new ScheduleStorage(
+        location ? resolve(location) : join(getStorageDir(), 'schedules.json'),
+        logger
+      );
+    case 'sqlite':
+      return new SqliteScheduleStorage(
+        location ? resolve(location) : join(getStorageDir(), 'schedules.db')
+      );
+    default:
+      throw new Error(
+        `Unknown storage backend "${backend}" in JULES_STORAGE (expected "json" or "sqlite")`
+      );
+  }
+}
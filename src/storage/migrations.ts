@@ -0,0 +1,118 @@
+/**
+ * Schedule Store Migrations - Ordered upgrade steps for schedules.json
+ * Each step upgrades a store from one schema version to the next
+ */
+
+import type { ScheduleStore } from '../types/schedule.js';
+
+/** Schema version written by this build */
+export const STORE_VERSION = '1.2.0';
+
+/** Version assumed for stores written before versioning was checked */
+const INITIAL_STORE_VERSION = '1.0.0';
+
+/**
+ * A single schema upgrade step.
+ */
+export interface StoreMigration {
+  /** Version the step upgrades from */
+  from: string;
+  /** Version the step upgrades to */
+  to: string;
+  /** What the step changes */
+  description: string;
+  /** Applies the step to a store (may mutate it) */
+  migrate: (store: ScheduleStore) => ScheduleStore;
+}
+
+/**
+ * Migration steps, oldest first. Each step's `to` must equal the next
+ * step's `from`, and the last step's `to` must equal STORE_VERSION.
+ */
+export const MIGRATIONS: readonly StoreMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'add per-schedule run history',
+    migrate: (store) => {
+      store.history ??= {};
+      for (const task of Object.values(store.schedules ?? {})) {
+        task.enabled = task.enabled !== false;
+      }
+      return store;
+    },
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'add persistent run queue',
+    migrate: (store) => {
+      store.queue ??= [];
+      return store;
+    },
+  },
+];
+
+/**
+ * Compares two dotted version strings numerically.
+ * @param a - The first version.
+ * @param b - The second version.
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Gets the schema version of a store.
+ * @param store - The parsed store.
+ * @returns The store's version (stores without one are treated as 1.0.0).
+ */
+export function getStoreVersion(store: Partial<ScheduleStore>): string {
+  return store.version || INITIAL_STORE_VERSION;
+}
+
+/**
+ * Upgrades a store to STORE_VERSION by applying every applicable step in order.
+ * @param store - The parsed store.
+ * @returns The upgraded store and the descriptions of the applied steps.
+ * @throws Error if the store is newer than STORE_VERSION or no migration path exists.
+ */
+export function migrateStore(store: ScheduleStore): {
+  store: ScheduleStore;
+  applied: string[];
+} {
+  let version = getStoreVersion(store);
+
+  if (compareVersions(version, STORE_VERSION) > 0) {
+    throw new Error(
+      `Schedule store version ${version} is newer than this server supports (${STORE_VERSION}). Upgrade jules-mcp-server to use it.`
+    );
+  }
+
+  const applied: string[] = [];
+  let current = store;
+
+  while (compareVersions(version, STORE_VERSION) < 0) {
+    const step = MIGRATIONS.find((migration) => migration.from === version);
+    if (!step) {
+      throw new Error(
+        `No migration from schedule store version ${version} to ${STORE_VERSION}`
+      );
+    }
+    current = step.migrate(current);
+    current.version = step.to;
+    applied.push(`${step.from} → ${step.to}: ${step.description}`);
+    version = step.to;
+  }
+
+  return { store: current, applied };
+}
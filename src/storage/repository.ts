@@ -0,0 +1,196 @@
+/**
+ * Schedule Repository - Storage abstraction for scheduled tasks and run history
+ * Implemented by ScheduleStorage (JSON file) and SqliteScheduleStorage
+ */
+
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type {
+  QueuedRun,
+  ScheduledTask,
+  ScheduleRunRecord,
+} from '../types/schedule.js';
+
+/**
+ * A page of run records for a single schedule.
+ */
+export interface RunHistoryPage {
+  /** Run records, newest first */
+  entries: ScheduleRunRecord[];
+  /** Total number of retained records for the schedule */
+  total: number;
+  /** Offset to request the next page, if more records exist */
+  nextOffset?: number;
+}
+
+/**
+ * Persistence for scheduled tasks and their run history.
+ */
+export interface ScheduleRepository {
+  /** Human-readable description of the backend and its location */
+  readonly description: string;
+
+  /**
+   * Adds or updates a scheduled task.
+   * @param task - The task to upsert.
+   */
+  upsertTask(task: ScheduledTask): Promise<void>;
+
+  /**
+   * Applies a partial update to an existing task.
+   * @param id - The ID of the task.
+   * @param updates - The fields to update.
+   * @returns The updated task, or undefined if it wasn't found.
+   */
+  patchTask(
+    id: string,
+    updates: Partial<Omit<ScheduledTask, 'id'>>
+  ): Promise<ScheduledTask | undefined>;
+
+  /**
+   * Retrieves a specific task by ID.
+   * @param id - The ID of the task.
+   * @returns The task if found, otherwise undefined.
+   */
+  getTask(id: string): Promise<ScheduledTask | undefined>;
+
+  /**
+   * Retrieves a task by name.
+   * @param name - The name of the task.
+   * @returns The task if found, otherwise undefined.
+   */
+  getTaskByName(name: string): Promise<ScheduledTask | undefined>;
+
+  /**
+   * Lists all tasks.
+   * @returns An array of all scheduled tasks.
+   */
+  listTasks(): Promise<ScheduledTask[]>;
+
+  /**
+   * Deletes a task, its run history and its queued runs.
+   * @param id - The ID of the task to delete.
+   * @returns True if the task was deleted, false if it wasn't found.
+   */
+  deleteTask(id: string): Promise<boolean>;
+
+  /**
+   * Updates the last run information for a task.
+   * @param id - The ID of the task.
+   * @param timestamp - The timestamp of the run.
+   * @param sessionId - The session ID of the run (optional).
+   */
+  updateLastRun(
+    id: string,
+    timestamp: string,
+    sessionId?: string
+  ): Promise<void>;
+
+  /**
+   * Appends a run record to a schedule's execution log and applies the
+   * retention limits. Records for unknown schedules are ignored.
+   * @param record - The run record to append.
+   */
+  appendRunRecord(record: ScheduleRunRecord): Promise<void>;
+
+  /**
+   * Updates an existing run record in place.
+   * @param scheduleId - The ID of the schedule.
+   * @param runId - The ID of the run record.
+   * @param updates - The fields to update.
+   * @returns True if the record was found and updated.
+   */
+  updateRunRecord(
+    scheduleId: string,
+    runId: string,
+    updates: Partial<Omit<ScheduleRunRecord, 'id' | 'scheduleId'>>
+  ): Promise<boolean>;
+
+  /**
+   * Retrieves a page of a schedule's execution log, newest first.
+   * @param scheduleId - The ID of the schedule.
+   * @param offset - The number of records to skip.
+   * @param limit - The maximum number of records to return.
+   * @returns The requested page of run records.
+   */
+  getRunHistory(
+    scheduleId: string,
+    offset?: number,
+    limit?: number
+  ): Promise<RunHistoryPage>;
+
+  /**
+   * Lists the most recent run records across all schedules, newest first.
+   * @param limit - The maximum number of records to return.
+   * @returns An array of run records.
+   */
+  listRecentRuns(limit?: number): Promise<ScheduleRunRecord[]>;
+
+  /**
+   * Maps every session ID spawned by a schedule to that schedule's ID.
+   * @returns A map of session ID to schedule ID.
+   */
+  getScheduledSessionIds(): Promise<Map<string, string>>;
+
+  /**
+   * Adds a firing to the persistent run queue.
+   * Entries for unknown schedules are ignored.
+   * @param entry - The queued run.
+   */
+  enqueueRun(entry: QueuedRun): Promise<void>;
+
+  /**
+   * Lists queued firings, oldest first.
+   * @returns An array of queued runs.
+   */
+  listQueuedRuns(): Promise<QueuedRun[]>;
+
+  /**
+   * Removes a firing from the run queue.
+   * @param id - The ID of the queued run.
+   * @returns True if the entry was removed, false if it wasn't queued.
+   */
+  dequeueRun(id: string): Promise<boolean>;
+
+  /**
+   * Releases any resources held by the backend.
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Run history retention limits.
+ */
+export interface HistoryRetention {
+  /** Maximum run records kept per schedule */
+  maxEntries: number;
+  /** Maximum age of a run record in milliseconds */
+  maxAgeMs: number;
+}
+
+/**
+ * Reads the run history retention limits from JULES_HISTORY_MAX_ENTRIES
+ * (default: 100 per schedule) and JULES_HISTORY_MAX_AGE_DAYS (default: 90).
+ * @returns The retention limits.
+ */
+export function getHistoryRetention(): HistoryRetention {
+  return {
+    maxEntries: Number(process.env.JULES_HISTORY_MAX_ENTRIES || 100),
+    maxAgeMs:
+      Number(process.env.JULES_HISTORY_MAX_AGE_DAYS || 90) *
+      24 *
+      60 *
+      60 *
+      1000,
+  };
+}
+
+/**
+ * Gets the directory for default storage files.
+ * @returns JULES_STORAGE_DIR, or ~/.jules-mcp if unset.
+ */
+export function getStorageDir(): string {
+  return process.env.JULES_STORAGE_DIR
+    ? resolve(process.env.JULES_STORAGE_DIR)
+    : join(homedir(), '.jules-mcp');
+}
@@ -1,30 +1,97 @@
 /**
  * Schedule Store - Local persistence for scheduled tasks
  * Implements the "Thick Server" pattern with file-based storage
- * Storage location: ~/.jules-mcp/schedules.json
+ * Default location: ~/.jules-mcp/schedules.json (see storage/factory.ts)
+ *
+ * Several processes (e.g. two editor windows, the CLI and a daemon) may share
+ * the file. Writes are atomic (write to a temp file, then rename), mutations
+ * hold an advisory lock file and re-read the store if another process changed
+ * it, and a .bak copy of the last good store is used to recover from a file
+ * that no longer parses.
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import { homedir } from 'os';
-import { join } from 'path';
-import type { ScheduledTask, ScheduleStore } from '../types/schedule.js';
+import {
+  copyFile,
+  mkdir,
+  open,
+  readFile,
+  rename,
+  stat,
+  unlink,
+} from 'fs/promises';
+import { existsSync, type Stats } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import type {
+  QueuedRun,
+  ScheduledTask,
+  ScheduleRunRecord,
+  ScheduleStore,
+} from '../types/schedule.js';
+import { delay } from '../utils/security.js';
+import { getStoreVersion, migrateStore, STORE_VERSION } from './migrations.js';
+import {
+  getHistoryRetention,
+  getStorageDir,
+  type HistoryRetention,
+  type RunHistoryPage,
+  type ScheduleRepository,
+} from './repository.js';
+
+/** Delay between attempts to take the lock file */
+const LOCK_RETRY_MS = 50;
+
+/** A lock file older than this is assumed to be left over from a crash */
+const LOCK_STALE_MS = 30000;
+
+/**
+ * Identifies a version of a file by its mtime, size and inode. Each write
+ * renames a new file into place, so the inode changes even when a rewrite
+ * lands within the filesystem's timestamp granularity.
+ * @param stats - The file's stats.
+ * @returns The stamp.
+ */
+function fileStamp(stats: Stats): string {
+  return `${stats.mtimeMs}:${stats.size}:${stats.ino}`;
+}
 
 /**
- * Handles persistence of scheduled tasks to the local file system.
+ * Handles persistence of scheduled tasks to a JSON file.
  */
-export class ScheduleStorage {
+export class ScheduleStorage implements ScheduleRepository {
+  readonly description: string;
   private readonly storagePath: string;
   private readonly storageDir: string;
+  private readonly lockPath: string;
+  private readonly backupPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly retention: HistoryRetention;
   private cache: ScheduleStore | null = null;
+  /** Identity (mtime, size, inode) of the file the cache was read from or written to */
+  private cacheStamp: string | undefined;
+  /** Serializes mutations within this process */
+  private queue: Promise<unknown> = Promise.resolve();
 
   /**
    * Creates an instance of ScheduleStorage.
-   * Initializes paths for storage directory and file.
+   * Initializes paths for storage directory and file, the lock timeout
+   * (JULES_STORAGE_LOCK_TIMEOUT_MS), and the run history retention limits.
+   * @param storagePath - Path of the JSON file (defaults to schedules.json in the storage directory).
+   * @param logger - The logger function used to report migrations and recoveries (defaults to console.error).
    */
-  constructor() {
-    this.storageDir = join(homedir(), '.jules-mcp');
-    this.storagePath = join(this.storageDir, 'schedules.json');
+  constructor(
+    storagePath = join(getStorageDir(), 'schedules.json'),
+    private readonly logger: (message: string) => void = console.error
+  ) {
+    this.storagePath = storagePath;
+    this.storageDir = dirname(storagePath);
+    this.lockPath = `${this.storagePath}.lock`;
+    this.backupPath = `${this.storagePath}.bak`;
+    this.description = `json:${this.storagePath}`;
+    this.lockTimeoutMs = Number(
+      process.env.JULES_STORAGE_LOCK_TIMEOUT_MS || 10000
+    );
+    this.retention = getHistoryRetention();
   }
 
   /**
@@ -39,49 +106,185 @@ export class ScheduleStorage {
 
   /**
    * Loads schedules from disk.
+   * Returns the cached store unless the file changed since it was read.
    * If storage file doesn't exist, initializes an empty store.
    * @returns The loaded schedule store.
-   * @throws Error if loading fails.
+   * @throws Error if loading fails and no backup can be recovered.
    */
   async load(): Promise<ScheduleStore> {
-    if (this.cache) {
+    const stamp = await this.getStamp();
+    if (this.cache && stamp === this.cacheStamp) {
       return this.cache;
     }
 
-    await this.ensureStorageDir();
-
-    if (!existsSync(this.storagePath)) {
+    if (stamp === undefined) {
       // Initialize empty store
-      const emptyStore: ScheduleStore = {
-        schedules: {},
-        version: '1.0.0',
-      };
-      await this.save(emptyStore);
-      return emptyStore;
+      return this.mutate((store) => store);
     }
 
+    return this.read(false);
+  }
+
+  /**
+   * Saves schedules to disk, replacing the stored contents.
+   * @param store - The schedule store to save.
+   * @throws Error if saving fails.
+   */
+  async save(store: ScheduleStore): Promise<void> {
+    await this.withLock(() => this.write(store));
+  }
+
+  /**
+   * Runs a read-modify-write cycle while holding the lock.
+   * The store is re-read first if another process changed the file. Changes
+   * are applied to a copy, so the cache only changes once the write succeeds.
+   * @param update - Applies the changes to the store.
+   * @returns The value returned by update.
+   */
+  private async mutate<T>(update: (store: ScheduleStore) => T): Promise<T> {
+    return this.withLock(async () => {
+      const stamp = await this.getStamp();
+      let store: ScheduleStore;
+      if (stamp === undefined) {
+        store = { schedules: {}, version: STORE_VERSION };
+      } else if (this.cache && stamp === this.cacheStamp) {
+        store = structuredClone(this.cache);
+      } else {
+        store = structuredClone(await this.read(true));
+      }
+
+      const result = update(store);
+      await this.write(store);
+      return result;
+    });
+  }
+
+  /**
+   * Reads and parses the store file, recovering from the backup if the
+   * file doesn't parse and migrating it if it has an older schema version.
+   * @param locked - Whether the caller already holds the lock.
+   * @returns The loaded schedule store.
+   * @throws Error if neither the file nor the backup can be read, or the
+   * store has a newer schema version.
+   */
+  private async read(locked: boolean): Promise<ScheduleStore> {
+    let store: ScheduleStore;
+    let stamp: string;
     try {
+      stamp = fileStamp(await stat(this.storagePath));
       const data = await readFile(this.storagePath, 'utf-8');
-      this.cache = JSON.parse(data) as ScheduleStore;
-      return this.cache;
+      store = JSON.parse(data) as ScheduleStore;
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw new Error(
+          `Failed to load schedules from ${this.storagePath}: ${error}`
+        );
+      }
+      return this.recoverFromBackup(error, locked);
+    }
+
+    if (getStoreVersion(store) !== STORE_VERSION) {
+      return this.upgrade(store, locked);
+    }
+
+    this.cache = store;
+    this.cacheStamp = stamp;
+    return store;
+  }
+
+  /**
+   * Migrates a store with an older schema version and persists the result.
+   * The pre-migration file is kept as schedules.json.v<version>.bak.
+   * @param store - The parsed store.
+   * @param locked - Whether the caller already holds the lock.
+   * @returns The migrated schedule store.
+   * @throws Error if the store has a newer schema version.
+   */
+  private async upgrade(
+    store: ScheduleStore,
+    locked: boolean
+  ): Promise<ScheduleStore> {
+    const version = getStoreVersion(store);
+    let migrated: ScheduleStore;
+    let applied: string[];
+    try {
+      ({ store: migrated, applied } = migrateStore(store));
     } catch (error) {
       throw new Error(
-        `Failed to load schedules from ${this.storagePath}: ${error}`
+        `Failed to load schedules from ${this.storagePath}: ${error instanceof Error ? error.message : error}`
       );
     }
+
+    const preMigrationPath = `${this.storagePath}.v${version}.bak`;
+    const persist = async () => {
+      await copyFile(this.storagePath, preMigrationPath);
+      await this.writeFileAtomic(migrated);
+    };
+    await (locked ? persist() : this.withLock(persist));
+
+    this.logger(
+      `Migrated schedule store from ${version} to ${STORE_VERSION} (${applied.join('; ')}); previous file kept at ${preMigrationPath}`
+    );
+    this.cache = migrated;
+    return migrated;
   }
 
   /**
-   * Saves schedules to disk.
-   * @param store - The schedule store to save.
-   * @throws Error if saving fails.
+   * Restores the store from the .bak copy after a parse failure.
+   * The unreadable file is kept next to the store for inspection.
+   * @param cause - The parse error.
+   * @param locked - Whether the caller already holds the lock.
+   * @returns The recovered schedule store.
+   * @throws Error if the backup is missing or unreadable too.
    */
-  async save(store: ScheduleStore): Promise<void> {
-    await this.ensureStorageDir();
+  private async recoverFromBackup(
+    cause: SyntaxError,
+    locked: boolean
+  ): Promise<ScheduleStore> {
+    let store: ScheduleStore;
+    try {
+      store = JSON.parse(
+        await readFile(this.backupPath, 'utf-8')
+      ) as ScheduleStore;
+    } catch {
+      throw new Error(
+        `Failed to load schedules from ${this.storagePath}: ${cause.message} (no usable backup at ${this.backupPath})`
+      );
+    }
+
+    const corruptPath = `${this.storagePath}.corrupt-${Date.now()}`;
+    this.logger(
+      `Schedule store ${this.storagePath} is unreadable (${cause.message}); restored from ${this.backupPath}, unreadable copy kept at ${corruptPath}`
+    );
+
+    const restore = async () => {
+      await copyFile(this.storagePath, corruptPath).catch(() => undefined);
+      await this.writeFileAtomic(store);
+    };
+    await (locked ? restore() : this.withLock(restore));
 
+    if (getStoreVersion(store) !== STORE_VERSION) {
+      return this.upgrade(store, locked);
+    }
+    this.cache = store;
+    return store;
+  }
+
+  /**
+   * Writes the store atomically and refreshes the backup.
+   * Must be called while holding the lock.
+   * @param store - The schedule store to write.
+   * @throws Error if writing fails.
+   */
+  private async write(store: ScheduleStore): Promise<void> {
     try {
-      const data = JSON.stringify(store, null, 2);
-      await writeFile(this.storagePath, data, 'utf-8');
+      // The current file was read (or written) successfully by this process,
+      // so it is the last known good store
+      const stamp = await this.getStamp();
+      if (stamp !== undefined && stamp === this.cacheStamp) {
+        await copyFile(this.storagePath, this.backupPath);
+      }
+      await this.writeFileAtomic(store);
       this.cache = store;
     } catch (error) {
       throw new Error(
@@ -90,14 +293,155 @@ export class ScheduleStorage {
     }
   }
 
+  /**
+   * Writes the store to a temporary file, flushes it, and renames it over
+   * the store file so readers never see a partial write.
+   * @param store - The schedule store to write.
+   */
+  private async writeFileAtomic(store: ScheduleStore): Promise<void> {
+    const tempPath = `${this.storagePath}.${process.pid}.${randomUUID()}.tmp`;
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(store, null, 2), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await rename(tempPath, this.storagePath);
+    } catch (error) {
+      await unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+    this.cacheStamp = fileStamp(await stat(this.storagePath));
+  }
+
+  /**
+   * Runs an operation while holding the advisory lock file.
+   * Operations within this process are queued; other processes are waited
+   * for until JULES_STORAGE_LOCK_TIMEOUT_MS elapses.
+   * @param operation - The operation to run.
+   * @returns The operation's result.
+   * @throws Error if the lock can't be acquired in time.
+   */
+  private async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      await this.ensureStorageDir();
+      await this.acquireLock();
+      try {
+        return await operation();
+      } finally {
+        await unlink(this.lockPath).catch(() => undefined);
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Creates the lock file, waiting while another process holds it.
+   * Lock files left behind by a dead process or older than LOCK_STALE_MS
+   * are removed.
+   * @throws Error if the lock can't be acquired in time.
+   */
+  private async acquireLock(): Promise<void> {
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, 'wx');
+        await handle.writeFile(
+          JSON.stringify({
+            pid: process.pid,
+            acquiredAt: new Date().toISOString(),
+          })
+        );
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.isLockStale()) {
+        await unlink(this.lockPath).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out waiting for lock ${this.lockPath}; remove it if no other jules-mcp process is running`
+        );
+      }
+      await delay(LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Checks whether the current lock file was left behind.
+   * @returns True if the holder is gone or the lock is too old.
+   */
+  private async isLockStale(): Promise<boolean> {
+    try {
+      const [data, { mtimeMs }] = await Promise.all([
+        readFile(this.lockPath, 'utf-8'),
+        stat(this.lockPath),
+      ]);
+      if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+        return true;
+      }
+      const { pid } = JSON.parse(data) as { pid?: number };
+      if (pid && pid !== process.pid) {
+        process.kill(pid, 0);
+      }
+      return false;
+    } catch (error) {
+      // ESRCH: the holder exited without releasing the lock
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+
+  /**
+   * Gets the store file's stamp, to notice changes by other processes.
+   * @returns The file's stamp, or undefined if the file doesn't exist.
+   */
+  private async getStamp(): Promise<string | undefined> {
+    try {
+      return fileStamp(await stat(this.storagePath));
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Adds or updates a scheduled task.
    * @param task - The task to upsert.
    */
   async upsertTask(task: ScheduledTask): Promise<void> {
-    const store = await this.load();
-    store.schedules[task.id] = task;
-    await this.save(store);
+    await this.mutate((store) => {
+      store.schedules[task.id] = task;
+    });
+  }
+
+  /**
+   * Applies a partial update to an existing task.
+   * @param id - The ID of the task.
+   * @param updates - The fields to update.
+   * @returns The updated task, or undefined if it wasn't found.
+   */
+  async patchTask(
+    id: string,
+    updates: Partial<Omit<ScheduledTask, 'id'>>
+  ): Promise<ScheduledTask | undefined> {
+    return this.mutate((store) => {
+      const task = store.schedules[id];
+      if (task) {
+        Object.assign(task, updates);
+      }
+      return task;
+    });
   }
 
   /**
@@ -130,18 +474,24 @@ export class ScheduleStorage {
   }
 
   /**
-   * Deletes a task by ID.
+   * Deletes a task, its run history and its queued runs.
    * @param id - The ID of the task to delete.
    * @returns True if the task was deleted, false if it wasn't found.
    */
   async deleteTask(id: string): Promise<boolean> {
-    const store = await this.load();
-    if (!store.schedules[id]) {
-      return false;
-    }
-    delete store.schedules[id];
-    await this.save(store);
-    return true;
+    return this.mutate((store) => {
+      if (!store.schedules[id]) {
+        return false;
+      }
+      delete store.schedules[id];
+      if (store.history) {
+        delete store.history[id];
+      }
+      if (store.queue) {
+        store.queue = store.queue.filter((entry) => entry.scheduleId !== id);
+      }
+      return true;
+    });
   }
 
   /**
@@ -155,13 +505,166 @@ export class ScheduleStorage {
     timestamp: string,
     sessionId?: string
   ): Promise<void> {
+    await this.mutate((store) => {
+      const task = store.schedules[id];
+      if (task) {
+        task.lastRun = timestamp;
+        task.lastSessionId = sessionId;
+      }
+    });
+  }
+
+  /**
+   * Appends a run record to a schedule's execution log.
+   * Applies retention limits (max entries and max age) after appending.
+   * @param record - The run record to append.
+   */
+  async appendRunRecord(record: ScheduleRunRecord): Promise<void> {
+    await this.mutate((store) => {
+      if (!store.schedules[record.scheduleId]) {
+        return;
+      }
+
+      store.history ??= {};
+      const entries = store.history[record.scheduleId] ?? [];
+      entries.push(record);
+      store.history[record.scheduleId] = this.applyRetention(entries);
+    });
+  }
+
+  /**
+   * Updates an existing run record in place (e.g., when a session changes state).
+   * @param scheduleId - The ID of the schedule.
+   * @param runId - The ID of the run record.
+   * @param updates - The fields to update.
+   * @returns True if the record was found and updated.
+   */
+  async updateRunRecord(
+    scheduleId: string,
+    runId: string,
+    updates: Partial<Omit<ScheduleRunRecord, 'id' | 'scheduleId'>>
+  ): Promise<boolean> {
+    return this.mutate((store) => {
+      const record = store.history?.[scheduleId]?.find((r) => r.id === runId);
+      if (record) {
+        Object.assign(record, updates);
+      }
+      return record !== undefined;
+    });
+  }
+
+  /**
+   * Retrieves a page of a schedule's execution log, newest first.
+   * @param scheduleId - The ID of the schedule.
+   * @param offset - The number of records to skip (default: 0).
+   * @param limit - The maximum number of records to return (default: 20).
+   * @returns The requested page of run records.
+   */
+  async getRunHistory(
+    scheduleId: string,
+    offset = 0,
+    limit = 20
+  ): Promise<RunHistoryPage> {
+    const store = await this.load();
+    const all = [...(store.history?.[scheduleId] ?? [])].reverse();
+    const entries = all.slice(offset, offset + limit);
+    const nextOffset =
+      offset + entries.length < all.length ? offset + entries.length : undefined;
+    return { entries, total: all.length, nextOffset };
+  }
+
+  /**
+   * Lists the most recent run records across all schedules, newest first.
+   * @param limit - The maximum number of records to return (default: 50).
+   * @returns An array of run records.
+   */
+  async listRecentRuns(limit = 50): Promise<ScheduleRunRecord[]> {
+    const store = await this.load();
+    return Object.values(store.history ?? {})
+      .flat()
+      .sort(
+        (a, b) =>
+          new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime()
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Maps every session ID spawned by a schedule to that schedule's ID.
+   * Covers retained run records and each schedule's lastSessionId.
+   * @returns A map of session ID to schedule ID.
+   */
+  async getScheduledSessionIds(): Promise<Map<string, string>> {
     const store = await this.load();
-    const task = store.schedules[id];
-    if (task) {
-      task.lastRun = timestamp;
-      task.lastSessionId = sessionId;
-      await this.save(store);
+    const sessions = new Map<string, string>();
+
+    for (const [scheduleId, runs] of Object.entries(store.history ?? {})) {
+      for (const run of runs) {
+        if (run.sessionId) {
+          sessions.set(run.sessionId, scheduleId);
+        }
+      }
     }
+    for (const task of Object.values(store.schedules)) {
+      if (task.lastSessionId) {
+        sessions.set(task.lastSessionId, task.id);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Adds a firing to the persistent run queue.
+   * @param entry - The queued run.
+   */
+  async enqueueRun(entry: QueuedRun): Promise<void> {
+    await this.mutate((store) => {
+      if (!store.schedules[entry.scheduleId]) {
+        return;
+      }
+
+      store.queue ??= [];
+      store.queue.push(entry);
+    });
+  }
+
+  /**
+   * Lists queued firings, oldest first.
+   * @returns An array of queued runs.
+   */
+  async listQueuedRuns(): Promise<QueuedRun[]> {
+    const store = await this.load();
+    // Stable sort keeps insertion order for equal timestamps
+    return [...(store.queue ?? [])].sort((a, b) =>
+      a.enqueuedAt.localeCompare(b.enqueuedAt)
+    );
+  }
+
+  /**
+   * Removes a firing from the run queue.
+   * @param id - The ID of the queued run.
+   * @returns True if the entry was removed, false if it wasn't queued.
+   */
+  async dequeueRun(id: string): Promise<boolean> {
+    return this.mutate((store) => {
+      const queue = store.queue ?? [];
+      store.queue = queue.filter((entry) => entry.id !== id);
+      return store.queue.length < queue.length;
+    });
+  }
+
+  /**
+   * Drops run records that exceed the retention limits.
+   * @param entries - The run records for a schedule, oldest first.
+   * @returns The retained run records.
+   */
+  private applyRetention(entries: ScheduleRunRecord[]): ScheduleRunRecord[] {
+    const cutoff = Date.now() - this.retention.maxAgeMs;
+    const fresh = entries.filter(
+      (entry) => new Date(entry.triggeredAt).getTime() >= cutoff
+    );
+    return fresh.slice(-this.retention.maxEntries);
   }
 
   /**
@@ -169,5 +672,13 @@ export class ScheduleStorage {
    */
   invalidateCache(): void {
     this.cache = null;
+    this.cacheStamp = undefined;
+  }
+
+  /**
+   * Waits for pending writes to finish.
+   */
+  async close(): Promise<void> {
+    await this.queue;
   }
 }
@@ -0,0 +1,424 @@
+/**
+ * SQLite Schedule Store - Database-backed persistence for scheduled tasks
+ * Suited to many schedules and long run histories: run records are indexed
+ * rather than rewritten as one file on every change
+ * Requires the optional better-sqlite3 dependency
+ */
+
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type {
+  QueuedRun,
+  ScheduledTask,
+  ScheduleRunRecord,
+} from '../types/schedule.js';
+import {
+  getHistoryRetention,
+  type HistoryRetention,
+  type RunHistoryPage,
+  type ScheduleRepository,
+} from './repository.js';
+
+/** Schema version stored in PRAGMA user_version (2 added the run queue) */
+const SCHEMA_VERSION = 2;
+
+/** How long to wait for another process's write lock */
+const BUSY_TIMEOUT_MS = 10000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS schedules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS schedules_name ON schedules (name);
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    schedule_id TEXT NOT NULL,
+    triggered_at TEXT NOT NULL,
+    session_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS runs_schedule_time ON runs (schedule_id, triggered_at);
+  CREATE INDEX IF NOT EXISTS runs_time ON runs (triggered_at);
+
+  CREATE TABLE IF NOT EXISTS queue (
+    id TEXT PRIMARY KEY,
+    schedule_id TEXT NOT NULL,
+    enqueued_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+/**
+ * Handles persistence of scheduled tasks to a SQLite database.
+ * Tasks and run records are stored as JSON documents alongside the columns
+ * needed for lookups, so new optional fields need no schema change.
+ */
+export class SqliteScheduleStorage implements ScheduleRepository {
+  readonly description: string;
+  private readonly retention: HistoryRetention;
+  private db?: Promise<BetterSqlite3.Database>;
+
+  /**
+   * Creates an instance of SqliteScheduleStorage.
+   * The database is opened on first use.
+   * @param databasePath - Path of the SQLite database file.
+   */
+  constructor(private readonly databasePath: string) {
+    this.description = `sqlite:${databasePath}`;
+    this.retention = getHistoryRetention();
+  }
+
+  /**
+   * Opens the database and creates the schema on first use.
+   * @returns The open database.
+   * @throws Error if better-sqlite3 isn't installed or the schema is newer.
+   */
+  private open(): Promise<BetterSqlite3.Database> {
+    this.db ??= (async () => {
+      let Database: typeof BetterSqlite3;
+      try {
+        ({ default: Database } = await import('better-sqlite3'));
+      } catch {
+        throw new Error(
+          'SQLite storage requires the better-sqlite3 package (npm install better-sqlite3@9)'
+        );
+      }
+
+      await mkdir(dirname(this.databasePath), { recursive: true });
+      const db = new Database(this.databasePath);
+      db.pragma('journal_mode = WAL');
+      db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+      const version = db.pragma('user_version', { simple: true }) as number;
+      if (version > SCHEMA_VERSION) {
+        db.close();
+        throw new Error(
+          `Schedule database ${this.databasePath} has schema version ${version}, newer than this server supports (${SCHEMA_VERSION}). Upgrade jules-mcp-server to use it.`
+        );
+      }
+      db.exec(SCHEMA);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+      return db;
+    })();
+
+    // Allow a retry after a failed open
+    this.db.catch(() => {
+      this.db = undefined;
+    });
+    return this.db;
+  }
+
+  /**
+   * Adds or updates a scheduled task.
+   * @param task - The task to upsert.
+   */
+  async upsertTask(task: ScheduledTask): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO schedules (id, name, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, data = excluded.data`
+    ).run(task.id, task.name, JSON.stringify(task));
+  }
+
+  /**
+   * Applies a partial update to an existing task.
+   * @param id - The ID of the task.
+   * @param updates - The fields to update.
+   * @returns The updated task, or undefined if it wasn't found.
+   */
+  async patchTask(
+    id: string,
+    updates: Partial<Omit<ScheduledTask, 'id'>>
+  ): Promise<ScheduledTask | undefined> {
+    const db = await this.open();
+    return db.transaction(() => {
+      const task = this.selectTask(db, id);
+      if (task) {
+        Object.assign(task, updates);
+        db.prepare('UPDATE schedules SET name = ?, data = ? WHERE id = ?').run(
+          task.name,
+          JSON.stringify(task),
+          id
+        );
+      }
+      return task;
+    }).immediate();
+  }
+
+  /**
+   * Retrieves a specific task by ID.
+   * @param id - The ID of the task.
+   * @returns The task if found, otherwise undefined.
+   */
+  async getTask(id: string): Promise<ScheduledTask | undefined> {
+    return this.selectTask(await this.open(), id);
+  }
+
+  /**
+   * Retrieves a task by name.
+   * @param name - The name of the task.
+   * @returns The task if found, otherwise undefined.
+   */
+  async getTaskByName(name: string): Promise<ScheduledTask | undefined> {
+    const db = await this.open();
+    const row = db
+      .prepare('SELECT data FROM schedules WHERE name = ? LIMIT 1')
+      .get(name) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ScheduledTask) : undefined;
+  }
+
+  /**
+   * Lists all tasks.
+   * @returns An array of all scheduled tasks.
+   */
+  async listTasks(): Promise<ScheduledTask[]> {
+    const db = await this.open();
+    const rows = db
+      .prepare('SELECT data FROM schedules ORDER BY rowid')
+      .all() as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as ScheduledTask);
+  }
+
+  /**
+   * Deletes a task, its run history and its queued runs.
+   * @param id - The ID of the task to delete.
+   * @returns True if the task was deleted, false if it wasn't found.
+   */
+  async deleteTask(id: string): Promise<boolean> {
+    const db = await this.open();
+    return db.transaction(() => {
+      db.prepare('DELETE FROM runs WHERE schedule_id = ?').run(id);
+      db.prepare('DELETE FROM queue WHERE schedule_id = ?').run(id);
+      return db.prepare('DELETE FROM schedules WHERE id = ?').run(id).changes > 0;
+    }).immediate();
+  }
+
+  /**
+   * Updates the last run information for a task.
+   * @param id - The ID of the task.
+   * @param timestamp - The timestamp of the run.
+   * @param sessionId - The session ID of the run (optional).
+   */
+  async updateLastRun(
+    id: string,
+    timestamp: string,
+    sessionId?: string
+  ): Promise<void> {
+    await this.patchTask(id, { lastRun: timestamp, lastSessionId: sessionId });
+  }
+
+  /**
+   * Appends a run record to a schedule's execution log.
+   * Applies retention limits (max entries and max age) after appending.
+   * @param record - The run record to append.
+   */
+  async appendRunRecord(record: ScheduleRunRecord): Promise<void> {
+    const db = await this.open();
+    const cutoff = new Date(Date.now() - this.retention.maxAgeMs).toISOString();
+
+    db.transaction(() => {
+      if (!this.selectTask(db, record.scheduleId)) {
+        return;
+      }
+
+      db.prepare(
+        `INSERT OR REPLACE INTO runs (id, schedule_id, triggered_at, session_id, data)
+         VALUES (?, ?, ?, ?, ?)`
+      ).run(
+        record.id,
+        record.scheduleId,
+        record.triggeredAt,
+        record.sessionId ?? null,
+        JSON.stringify(record)
+      );
+
+      db.prepare(
+        `DELETE FROM runs WHERE schedule_id = ? AND (
+           triggered_at < ? OR id NOT IN (
+             SELECT id FROM runs WHERE schedule_id = ?
+             ORDER BY triggered_at DESC, rowid DESC LIMIT ?
+           )
+         )`
+      ).run(
+        record.scheduleId,
+        cutoff,
+        record.scheduleId,
+        this.retention.maxEntries
+      );
+    }).immediate();
+  }
+
+  /**
+   * Updates an existing run record in place (e.g., when a session changes state).
+   * @param scheduleId - The ID of the schedule.
+   * @param runId - The ID of the run record.
+   * @param updates - The fields to update.
+   * @returns True if the record was found and updated.
+   */
+  async updateRunRecord(
+    scheduleId: string,
+    runId: string,
+    updates: Partial<Omit<ScheduleRunRecord, 'id' | 'scheduleId'>>
+  ): Promise<boolean> {
+    const db = await this.open();
+    return db.transaction(() => {
+      const row = db
+        .prepare('SELECT data FROM runs WHERE id = ? AND schedule_id = ?')
+        .get(runId, scheduleId) as { data: string } | undefined;
+      if (!row) {
+        return false;
+      }
+
+      const record = {
+        ...(JSON.parse(row.data) as ScheduleRunRecord),
+        ...updates,
+      };
+      db.prepare('UPDATE runs SET session_id = ?, data = ? WHERE id = ?').run(
+        record.sessionId ?? null,
+        JSON.stringify(record),
+        runId
+      );
+      return true;
+    }).immediate();
+  }
+
+  /**
+   * Retrieves a page of a schedule's execution log, newest first.
+   * @param scheduleId - The ID of the schedule.
+   * @param offset - The number of records to skip (default: 0).
+   * @param limit - The maximum number of records to return (default: 20).
+   * @returns The requested page of run records.
+   */
+  async getRunHistory(
+    scheduleId: string,
+    offset = 0,
+    limit = 20
+  ): Promise<RunHistoryPage> {
+    const db = await this.open();
+    const { total } = db
+      .prepare('SELECT COUNT(*) AS total FROM runs WHERE schedule_id = ?')
+      .get(scheduleId) as { total: number };
+    const rows = db
+      .prepare(
+        `SELECT data FROM runs WHERE schedule_id = ?
+         ORDER BY triggered_at DESC, rowid DESC LIMIT ? OFFSET ?`
+      )
+      .all(scheduleId, limit, offset) as Array<{ data: string }>;
+
+    const entries = rows.map((row) => JSON.parse(row.data) as ScheduleRunRecord);
+    const nextOffset =
+      offset + entries.length < total ? offset + entries.length : undefined;
+    return { entries, total, nextOffset };
+  }
+
+  /**
+   * Lists the most recent run records across all schedules, newest first.
+   * @param limit - The maximum number of records to return (default: 50).
+   * @returns An array of run records.
+   */
+  async listRecentRuns(limit = 50): Promise<ScheduleRunRecord[]> {
+    const db = await this.open();
+    const rows = db
+      .prepare(
+        'SELECT data FROM runs ORDER BY triggered_at DESC, rowid DESC LIMIT ?'
+      )
+      .all(limit) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as ScheduleRunRecord);
+  }
+
+  /**
+   * Maps every session ID spawned by a schedule to that schedule's ID.
+   * Covers retained run records and each schedule's lastSessionId.
+   * @returns A map of session ID to schedule ID.
+   */
+  async getScheduledSessionIds(): Promise<Map<string, string>> {
+    const db = await this.open();
+    const sessions = new Map<string, string>();
+
+    const runs = db
+      .prepare(
+        'SELECT session_id, schedule_id FROM runs WHERE session_id IS NOT NULL'
+      )
+      .all() as Array<{ session_id: string; schedule_id: string }>;
+    for (const run of runs) {
+      sessions.set(run.session_id, run.schedule_id);
+    }
+    for (const task of await this.listTasks()) {
+      if (task.lastSessionId) {
+        sessions.set(task.lastSessionId, task.id);
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Adds a firing to the persistent run queue.
+   * @param entry - The queued run.
+   */
+  async enqueueRun(entry: QueuedRun): Promise<void> {
+    const db = await this.open();
+    db.transaction(() => {
+      if (!this.selectTask(db, entry.scheduleId)) {
+        return;
+      }
+
+      db.prepare(
+        'INSERT INTO queue (id, schedule_id, enqueued_at, data) VALUES (?, ?, ?, ?)'
+      ).run(entry.id, entry.scheduleId, entry.enqueuedAt, JSON.stringify(entry));
+    }).immediate();
+  }
+
+  /**
+   * Lists queued firings, oldest first.
+   * @returns An array of queued runs.
+   */
+  async listQueuedRuns(): Promise<QueuedRun[]> {
+    const db = await this.open();
+    const rows = db
+      .prepare('SELECT data FROM queue ORDER BY enqueued_at, rowid')
+      .all() as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as QueuedRun);
+  }
+
+  /**
+   * Removes a firing from the run queue.
+   * @param id - The ID of the queued run.
+   * @returns True if the entry was removed, false if it wasn't queued.
+   */
+  async dequeueRun(id: string): Promise<boolean> {
+    const db = await this.open();
+    return db.prepare('DELETE FROM queue WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Closes the database.
+   */
+  async close(): Promise<void> {
+    const db = this.db;
+    this.db = undefined;
+    if (db) {
+      (await db.catch(() => undefined))?.close();
+    }
+  }
+
+  /**
+   * Reads a task row.
+   * @param db - The open database.
+   * @param id - The ID of the task.
+   * @returns The task if found, otherwise undefined.
+   */
+  private selectTask(
+    db: BetterSqlite3.Database,
+    id: string
+  ): ScheduledTask | undefined {
+    const row = db.prepare('SELECT data FROM schedules WHERE id = ?').get(id) as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as ScheduledTask) : undefined;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * HTTP Server - Serves MCP over the Streamable HTTP transport
+ * Each client session gets its own MCP server instance; all of them share
+ * the process-wide client, storage and scheduler
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as NodeHttpServer,
+  type ServerResponse,
+} from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/** Path the MCP endpoint is served on */
+const MCP_PATH = '/mcp';
+
+/** Path of the unauthenticated liveness probe */
+const HEALTH_PATH = '/healthz';
+
+/** Largest accepted JSON-RPC request body */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Options for the HTTP server.
+ */
+export interface HttpServerOptions {
+  /** Address to bind to */
+  host: string;
+  /** Port to listen on */
+  port: number;
+  /** Bearer token every MCP request must present */
+  token: string;
+}
+
+/**
+ * Serves MCP over Streamable HTTP (POST for requests, GET for the SSE
+ * notification stream, DELETE to end a session) with bearer-token auth.
+ */
+export class McpHttpServer {
+  private readonly transports: Map<string, StreamableHTTPServerTransport> =
+    new Map();
+  private readonly tokenDigest: Buffer;
+  private httpServer?: NodeHttpServer;
+
+  /**
+   * Creates an instance of McpHttpServer.
+   * @param createMcpServer - Factory for a new MCP server per client session.
+   * @param options - Bind address, port and bearer token.
+   * @param logger - The logger function to use (defaults to console.error).
+   */
+  constructor(
+    private readonly createMcpServer: () => Server,
+    private readonly options: HttpServerOptions,
+    private readonly logger: (message: string) => void = console.error
+  ) {
+    if (!options.token) {
+      throw new Error('A bearer token is required for the HTTP transport');
+    }
+    this.tokenDigest = createHash('sha256').update(options.token).digest();
+  }
+
+  /**
+   * Starts listening for connections.
+   */
+  async listen(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.logger(
+          `HTTP request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        if (!res.headersSent) {
+          this.sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.logger(
+      `MCP endpoint listening on http://${this.options.host}:${this.options.port}${MCP_PATH}`
+    );
+  }
+
+  /**
+   * Gets the number of connected client sessions.
+   * @returns The number of open sessions.
+   */
+  getSessionCount(): number {
+    return this.transports.size;
+  }
+
+  /**
+   * Closes all client sessions and stops listening.
+   */
+  async close(): Promise<void> {
+    const transports = [...this.transports.values()];
+    this.transports.clear();
+    await Promise.allSettled(transports.map((transport) => transport.close()));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Routes a single HTTP request.
+   * @param req - The incoming request.
+   * @param res - The response.
+   */
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok' }));
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error) {
+        const tooLarge = error instanceof RangeError;
+        this.sendError(
+          res,
+          tooLarge ? 413 : 400,
+          -32700,
+          tooLarge ? 'Request body too large' : 'Parse error'
+        );
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const transport = this.transports.get(sessionId);
+      if (!transport) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      await this.startSession(req, res, body);
+      return;
+    }
+
+    this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+  }
+
+  /**
+   * Creates a transport and MCP server for a new client session and
+   * hands it the initialize request.
+   * @param req - The initialize request.
+   * @param res - The response.
+   * @param body - The parsed initialize request body.
+   */
+  private async startSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.transports.set(sessionId, transport);
+        this.logger(`MCP client connected (session ${sessionId})`);
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.transports.delete(sessionId)) {
+        this.logger(`MCP client disconnected (session ${sessionId})`);
+      }
+    };
+
+    await this.createMcpServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Checks the request's bearer token in constant time.
+   * @param req - The incoming request.
+   * @returns True if the request presents the configured token.
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+    const digest = createHash('sha256').update(match[1].trim()).digest();
+    return timingSafeEqual(digest, this.tokenDigest);
+  }
+
+  /**
+   * Reads and parses a JSON request body.
+   * @param req - The incoming request.
+   * @returns The parsed body.
+   * @throws RangeError if the body exceeds MAX_BODY_BYTES.
+   * @throws SyntaxError if the body is not valid JSON.
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new RangeError('Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  }
+
+  /**
+   * Sends a JSON-RPC error response.
+   * @param res - The response.
+   * @param status - The HTTP status code.
+   * @param code - The JSON-RPC error code.
+   * @param message - The error message.
+   */
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Type definitions for automated plan-approval policies
+ * Policies let the server approve or reject generated plans without a human,
+ * based on which paths a plan touches and how large it is.
+ */
+
+/**
+ * Rules a generated plan must satisfy to be approved automatically.
+ * Every configured rule must pass; unset rules are not checked.
+ */
+export interface ApprovalPolicy {
+  /** Glob patterns every changed path must match (e.g., "docs/**") */
+  allowedPaths?: string[];
+  /** Glob patterns no changed path may match (e.g., ".github/workflows/**") */
+  protectedPaths?: string[];
+  /** Maximum number of changed files */
+  maxFiles?: number;
+  /** Maximum number of added plus removed lines */
+  maxChangedLines?: number;
+  /** Feedback sent to Jules when a plan is rejected (violations are appended) */
+  rejectionMessage?: string;
+}
+
+/**
+ * Outcome of evaluating a plan against a policy.
+ * - `approved`: The plan satisfied every rule and was approved.
+ * - `rejected`: The plan violated a rule; feedback was sent to the session.
+ * - `manual`: The plan could not be evaluated and was left for manual review.
+ */
+export type ApprovalOutcome = 'approved' | 'rejected' | 'manual';
+
+/**
+ * A decision made by the approval engine.
+ */
+export interface ApprovalDecision {
+  /** ID of the session */
+  sessionId: string;
+  /** Resource name of the evaluated PLAN_GENERATED activity */
+  planActivity?: string;
+  /** Outcome of the evaluation */
+  outcome: ApprovalOutcome;
+  /** Rule violations (rejected) or the reason for deferring (manual) */
+  reasons: string[];
+  /** Number of changed files in the plan */
+  files: number;
+  /** Number of added plus removed lines in the plan */
+  changedLines: number;
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+}
@@ -80,6 +80,15 @@ export type SessionState =
   | 'FAILED'
   | 'CANCELED';
 
+/**
+ * Session states after which a session will not change again.
+ */
+export const TERMINAL_SESSION_STATES: readonly SessionState[] = [
+  'COMPLETED',
+  'FAILED',
+  'CANCELED',
+];
+
 /**
  * Represents a Jules session.
  */
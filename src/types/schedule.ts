@@ -4,6 +4,9 @@
  * since the Jules API does not natively support scheduling.
  */
 
+import type { SessionState } from './jules-api.js';
+import type { ApprovalDecision, ApprovalPolicy } from './approval.js';
+
 /**
  * Payload for a task to be sent to the Jules API.
  */
@@ -12,7 +15,7 @@ export interface TaskPayload {
   prompt: string;
   /** Repository resource name (sources/github/owner/repo) */
   source: string;
-  /** Target branch (defaults to main) */
+  /** Target branch (defaults to the repository's default branch) */
   branch?: string;
   /** Whether to auto-create PR on completion */
   automationMode: 'AUTO_CREATE_PR' | 'AUTOMATION_MODE_UNSPECIFIED';
@@ -22,6 +25,49 @@ export interface TaskPayload {
   title?: string;
 }
 
+/**
+ * What to do at startup with firings missed while the server was offline.
+ * - `skip`: Drop missed firings and wait for the next one.
+ * - `run_once`: Run once to cover all missed firings.
+ * - `run_all`: Run once per missed firing, capped at `misfireMaxRuns`.
+ */
+export type MisfirePolicy = 'skip' | 'run_once' | 'run_all';
+
+/**
+ * What to do when a schedule fires while its previous session is still running.
+ * - `allow`: Start another session anyway.
+ * - `skip`: Drop the firing.
+ * - `queue`: Hold the firing in the run queue until the previous session finishes.
+ * - `cancel_previous`: Cancel the previous session, then start a new one.
+ */
+export type OverlapPolicy = 'allow' | 'skip' | 'queue' | 'cancel_previous';
+
+/**
+ * A decision taken because a schedule fired while its previous session was running.
+ */
+export interface OverlapDecision {
+  /** ISO timestamp of the decision */
+  at: string;
+  /** Policy that was applied */
+  policy: OverlapPolicy;
+  /** Session that was still running */
+  previousSessionId: string;
+  /** State of that session */
+  previousState: SessionState;
+  /** What happened to the firing */
+  action: 'skipped' | 'queued' | 'canceled_previous';
+  /** Why canceling the previous session failed (the firing is then skipped) */
+  error?: string;
+}
+
+/**
+ * How a scheduled run was triggered.
+ * - `scheduled`: Fired by the cron timer.
+ * - `catch_up`: Replayed at startup for a firing missed while offline.
+ * - `manual`: Fired on demand via run_schedule_now.
+ */
+export type RunTrigger = 'scheduled' | 'catch_up' | 'manual';
+
 /**
  * Represents a scheduled task with its metadata and payload.
  */
@@ -44,6 +90,99 @@ export interface ScheduledTask {
   lastSessionId?: string;
   /** Whether this schedule is currently active */
   enabled: boolean;
+  /** ISO timestamp when the schedule was last paused */
+  pausedAt?: string;
+  /** ISO timestamp when the schedule was last resumed */
+  resumedAt?: string;
+  /** Policy for firings missed while offline (defaults to skip) */
+  misfirePolicy?: MisfirePolicy;
+  /** Maximum number of catch-up runs for the run_all policy */
+  misfireMaxRuns?: number;
+  /** Policy for approving plans automatically (requires requirePlanApproval) */
+  approvalPolicy?: ApprovalPolicy;
+  /** Policy for firings while the previous session is running (defaults to allow) */
+  overlapPolicy?: OverlapPolicy;
+  /** Most recent overlap decision for this schedule */
+  lastOverlap?: OverlapDecision;
+  /** Summary of the most recent startup catch-up (firings before `at` were handled) */
+  lastCatchUp?: {
+    /** ISO timestamp when the catch-up was evaluated */
+    at: string;
+    /** Number of firings missed since the last run */
+    missed: number;
+    /** Number of catch-up runs executed */
+    executed: number;
+    /** Number of catch-up runs deferred to the run queue by concurrency limits */
+    queued?: number;
+    /** Policy that was applied */
+    policy: MisfirePolicy;
+  };
+}
+
+/**
+ * Next execution time of a schedule, in UTC and in the schedule's timezone.
+ */
+export interface NextExecution {
+  /** ISO timestamp in UTC */
+  utc: string;
+  /** ISO timestamp with offset in the schedule's timezone */
+  local: string;
+  /** IANA timezone used for the local time */
+  timezone: string;
+}
+
+/**
+ * A single entry in a schedule's append-only execution log.
+ */
+export interface ScheduleRunRecord {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** ID of the schedule that fired */
+  scheduleId: string;
+  /** ISO timestamp when the run was triggered */
+  triggeredAt: string;
+  /** How the run was triggered (absent on records written before triggers were tracked) */
+  trigger?: RunTrigger;
+  /** ISO timestamp of the missed firing this run replaces (catch-up runs only) */
+  scheduledFor?: string;
+  /** ISO timestamp when the firing was queued by concurrency limits (queued runs only) */
+  queuedAt?: string;
+  /** ISO timestamp when the run finished (session created or retries exhausted) */
+  finishedAt: string;
+  /** Number of createSession attempts made */
+  attempts: number;
+  /** Outcome of the run */
+  status: 'success' | 'failed';
+  /** Session ID created by the run */
+  sessionId?: string;
+  /** Branch the session started from */
+  startingBranch?: string;
+  /** Error message if the run failed */
+  error?: string;
+  /** Last known state of the created session */
+  sessionState?: SessionState;
+  /** Most recent automated plan-approval decision for the session */
+  approval?: ApprovalDecision;
+}
+
+/**
+ * A cron or catch-up firing held back by the scheduler's concurrency limits.
+ */
+export interface QueuedRun {
+  /** Unique identifier (UUID) */
+  id: string;
+  /** ID of the schedule that fired */
+  scheduleId: string;
+  /** Repository resource name the run targets */
+  source: string;
+  /** How the run was triggered */
+  trigger: RunTrigger;
+  /** ISO timestamp of the missed firing (catch-up runs only) */
+  scheduledFor?: string;
+  /** ISO timestamp when the firing was queued */
+  enqueuedAt: string;
+  /** Why the firing could not start immediately */
+  reason: string;
 }
 
 /**
@@ -52,6 +191,10 @@ export interface ScheduledTask {
 export interface ScheduleStore {
   /** Map of schedule ID to ScheduledTask */
   schedules: Record<string, ScheduledTask>;
-  /** Schema version for future migrations */
+  /** Map of schedule ID to its execution log (oldest first) */
+  history?: Record<string, ScheduleRunRecord[]>;
+  /** Firings waiting for a concurrency slot (oldest first) */
+  queue?: QueuedRun[];
+  /** Schema version (see STORE_VERSION in storage/migrations.ts) */
   version: string;
 }
@@ -0,0 +1,179 @@
+/**
+ * Change set utilities for rendering and measuring plan diffs
+ */
+
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff';
+import type { ChangeSet } from '../types/jules-api.js';
+
+/** Default maximum characters of diff text kept per file */
+const DEFAULT_MAX_FILE_CHARS = 20000;
+
+/** Default maximum characters of diff text kept across all files */
+const DEFAULT_MAX_TOTAL_CHARS = 200000;
+
+/** Skip computing a diff when either side is larger than this */
+const MAX_CONTENT_CHARS_TO_DIFF = 1000000;
+
+/**
+ * Size limits for rendered diffs.
+ */
+export interface RenderLimits {
+  /** Maximum characters of diff text kept per file */
+  maxFileChars?: number;
+  /** Maximum characters of diff text kept across all files */
+  maxTotalChars?: number;
+}
+
+/**
+ * A single file change with its unified diff and line counts.
+ */
+export interface RenderedFileChange {
+  /** Path of the changed file */
+  path: string;
+  /** Kind of change, inferred from which contents are present */
+  status: 'added' | 'deleted' | 'modified';
+  /** Number of added lines */
+  additions: number;
+  /** Number of removed lines */
+  deletions: number;
+  /**
+   * Whether the diff came from the API or was computed from old/new content.
+   * With 'none' (no contents, or contents too large to diff) the line counts
+   * are 0 and don't reflect the change.
+   */
+  diffSource: 'provided' | 'computed' | 'none';
+  /** Unified diff text (possibly truncated) */
+  diff?: string;
+  /** Whether the diff text was truncated or omitted because of size limits */
+  truncated: boolean;
+}
+
+/**
+ * A rendered change set with per-file diffs and totals.
+ */
+export interface RenderedChangeSet {
+  /** Per-file changes in change set order */
+  files: RenderedFileChange[];
+  /** Total added lines across all files */
+  additions: number;
+  /** Total removed lines across all files */
+  deletions: number;
+  /** Whether any file's diff was truncated or omitted */
+  truncated: boolean;
+}
+
+/**
+ * Count added and removed lines in a unified diff
+ * @param diff - The unified diff text
+ * @returns The number of added and removed lines
+ */
+export function countDiffLines(diff: string): {
+  additions: number;
+  deletions: number;
+} {
+  let additions = 0;
+  let deletions = 0;
+  let inHunk = false;
+
+  for (const line of diff.split('\n')) {
+    // File headers (---/+++) only appear before a file's first hunk
+    if (line.startsWith('@@')) {
+      inHunk = true;
+    } else if (
+      !inHunk &&
+      (line.startsWith('--- ') || line.startsWith('+++ '))
+    ) {
+      continue;
+    } else if (line.startsWith('diff ')) {
+      inHunk = false;
+    } else if (line.startsWith('+')) {
+      additions++;
+    } else if (line.startsWith('-')) {
+      deletions++;
+    }
+  }
+
+  return { additions, deletions };
+}
+
+/**
+ * Render a change set as per-file unified diffs with line counts.
+ * Uses the API-provided diff when present and otherwise computes one from
+ * oldContent/newContent. Diff text is truncated per file and in total, but
+ * line counts always reflect the full change.
+ * @param changeSet - The change set from a PLAN_GENERATED activity
+ * @param limits - Size limits for the rendered diff text (optional)
+ * @returns The rendered change set
+ */
+export function renderChangeSet(
+  changeSet: ChangeSet | undefined,
+  limits: RenderLimits = {}
+): RenderedChangeSet {
+  const maxFileChars = limits.maxFileChars ?? DEFAULT_MAX_FILE_CHARS;
+  let remainingChars = limits.maxTotalChars ?? DEFAULT_MAX_TOTAL_CHARS;
+
+  const files = (changeSet?.changes ?? []).map((change): RenderedFileChange => {
+    const status =
+      change.oldContent === undefined && change.newContent !== undefined
+        ? 'added'
+        : change.newContent === undefined && change.oldContent !== undefined
+          ? 'deleted'
+          : 'modified';
+
+    let diff: string | undefined = change.diff;
+    let diffSource: RenderedFileChange['diffSource'] = diff ? 'provided' : 'none';
+    let truncated = false;
+
+    if (!diff && (change.oldContent !== undefined || change.newContent !== undefined)) {
+      const oldContent = change.oldContent ?? '';
+      const newContent = change.newContent ?? '';
+      if (
+        oldContent.length > MAX_CONTENT_CHARS_TO_DIFF ||
+        newContent.length > MAX_CONTENT_CHARS_TO_DIFF
+      ) {
+        truncated = true;
+      } else {
+        diff = createTwoFilesPatch(
+          status === 'added' ? '/dev/null' : `a/${change.path}`,
+          status === 'deleted' ? '/dev/null' : `b/${change.path}`,
+          oldContent,
+          newContent,
+          undefined,
+          undefined,
+          { headerOptions: FILE_HEADERS_ONLY }
+        );
+        diffSource = 'computed';
+      }
+    }
+
+    const { additions, deletions } = diff
+      ? countDiffLines(diff)
+      : { additions: 0, deletions: 0 };
+
+    if (diff) {
+      const allowed = Math.max(0, Math.min(maxFileChars, remainingChars));
+      if (diff.length > allowed) {
+        diff = allowed > 0 ? `${diff.slice(0, allowed)}\n... [diff truncated]` : undefined;
+        truncated = true;
+      }
+      remainingChars -= Math.min(diff?.length ?? 0, remainingChars);
+    }
+
+    return {
+      path: change.path,
+      status,
+      additions,
+      deletions,
+      diffSource,
+      diff,
+      truncated,
+    };
+  });
+
+  return {
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    truncated: files.some((file) => file.truncated),
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Minimal glob matching for repository paths
+ * Supports `**` (any number of directories), `*` (within a segment) and `?`
+ */
+
+/**
+ * Convert a glob pattern to an anchored regular expression
+ * @param glob - The glob pattern (e.g., ".github/workflows/**")
+ * @returns A RegExp matching the whole path
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/^\.\//, '');
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path matches any of the given glob patterns
+ * @param path - The repository-relative path
+ * @param globs - The glob patterns
+ * @returns True if at least one pattern matches
+ */
+export function matchesAnyGlob(path: string, globs: string[]): boolean {
+  const normalized = path.replace(/^\.?\//, '');
+  return globs.some((glob) => globToRegExp(glob).test(normalized));
+}
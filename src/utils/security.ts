@@ -93,13 +93,15 @@ export function smartTruncate(text: string, maxLength: number): string {
  * @param fn - The async function to retry
  * @param maxRetries - The maximum number of retries (default: 3)
  * @param baseDelay - The base delay in milliseconds (default: 1000)
+ * @param shouldRetry - Whether an error is worth retrying (default: always)
  * @returns A promise that resolves with the result of the function
  * @throws The last error encountered if all retries fail
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true
 ): Promise<T> {
   let lastError: Error;
 
@@ -108,6 +110,9 @@ export async function retryWithBackoff<T>(
       return await fn();
     } catch (error) {
       lastError = error as Error;
+      if (!shouldRetry(error)) {
+        throw error;
+      }
 
       if (attempt < maxRetries - 1) {
         const delay = baseDelay * Math.pow(2, attempt);
@@ -118,3 +123,31 @@ export async function retryWithBackoff<T>(
 
   throw lastError!;
 }
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param ms - The delay in milliseconds
+ * @param signal - An optional AbortSignal that cancels the wait
+ * @returns A promise that resolves after the delay
+ * @throws Error if the signal is aborted before the delay elapses
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Operation canceled'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Operation canceled'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * Timezone utilities for schedule validation and display
+ */
+
+/**
+ * Checks whether a string is a valid IANA timezone identifier
+ * @param timezone - The timezone to check (e.g., "America/New_York")
+ * @returns True if the runtime recognizes the timezone, false otherwise
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the timezone the process is running in
+ * @returns The system IANA timezone identifier
+ */
+export function getSystemTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Formats a date as an ISO-8601 timestamp in the given timezone, with its UTC offset
+ * @param date - The date to format
+ * @param timezone - The IANA timezone to render the date in
+ * @returns A string like "2025-03-09T09:00:00-04:00"
+ */
+export function formatInTimezone(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'longOffset',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  // "GMT-04:00" -> "-04:00"; plain "GMT" means UTC
+  const offset = get('timeZoneName').replace('GMT', '') || 'Z';
+
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:${get('second')}${offset}`;
+}
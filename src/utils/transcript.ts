@@ -0,0 +1,202 @@
+/**
+ * Transcript utilities for rendering session activities as a conversation
+ */
+
+import type { Activity, Session } from '../types/jules-api.js';
+
+/** Transcript output formats */
+export type TranscriptFormat = 'markdown' | 'json';
+
+/**
+ * One turn of a session transcript.
+ */
+export interface TranscriptEntry {
+  /** Activity resource name (absent for the session's initial prompt) */
+  activity?: string;
+  /** When the turn happened */
+  timestamp?: string;
+  /** Who produced the turn */
+  speaker: 'USER' | 'AGENT';
+  /** Kind of turn */
+  kind: 'prompt' | 'message' | 'plan' | 'progress' | 'completion';
+  /** Message, plan, progress or completion text */
+  text: string;
+  /** Completion percentage (progress turns only) */
+  percentage?: number;
+  /** Number of files in the plan's change set (plan turns only) */
+  planFiles?: number;
+  /** Whether the session succeeded (completion turns only) */
+  success?: boolean;
+  /** Pull request created by the session (completion turns only) */
+  pullRequestUrl?: string;
+}
+
+/**
+ * Builds a chronological transcript from a session and its activities.
+ * The session's prompt is the first USER turn.
+ * @param session - The session.
+ * @param activities - The session's activities, in any order.
+ * @param since - Only turns after this ISO timestamp (optional).
+ * @returns The transcript entries, oldest first.
+ * @throws Error if since isn't a valid timestamp.
+ */
+export function buildTranscript(
+  session: Session,
+  activities: Activity[],
+  since?: string
+): TranscriptEntry[] {
+  const after = since !== undefined ? Date.parse(since) : undefined;
+  if (after !== undefined && Number.isNaN(after)) {
+    throw new Error(`Invalid since timestamp: ${since}`);
+  }
+
+  const entries: TranscriptEntry[] = [
+    {
+      timestamp: session.createTime,
+      speaker: 'USER',
+      kind: 'prompt',
+      text: session.prompt,
+    },
+  ];
+  for (const activity of activities) {
+    const entry = toTranscriptEntry(activity);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  // Keep API order for activities without timestamps or with equal ones
+  const time = (entry: TranscriptEntry): number =>
+    entry.timestamp ? Date.parse(entry.timestamp) : 0;
+  const ordered = entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => time(a.entry) - time(b.entry) || a.index - b.index)
+    .map(({ entry }) => entry);
+
+  return after === undefined
+    ? ordered
+    : ordered.filter(
+        (entry) => entry.timestamp !== undefined && time(entry) > after
+      );
+}
+
+/**
+ * Renders a transcript as Markdown, one section per turn.
+ * @param session - The session.
+ * @param entries - The transcript entries.
+ * @param since - The since filter that was applied (optional).
+ * @returns The Markdown text.
+ */
+export function renderTranscriptMarkdown(
+  session: Session,
+  entries: TranscriptEntry[],
+  since?: string
+): string {
+  const lines = [
+    `# ${session.title || 'Untitled Task'}`,
+    '',
+    `Session \`${session.id}\` · ${session.state ?? 'UNKNOWN'} · ${session.sourceContext.source}`,
+    since
+      ? `${entries.length} turn(s) after ${since}`
+      : `${entries.length} turn(s)`,
+  ];
+
+  for (const entry of entries) {
+    const when = entry.timestamp ? ` · ${entry.timestamp}` : '';
+    lines.push(
+      '',
+      `### ${describeTurn(entry)}${when}`,
+      '',
+      entry.text || '_(empty)_'
+    );
+
+    if (entry.kind === 'plan' && entry.planFiles !== undefined) {
+      lines.push(
+        '',
+        `_${entry.planFiles} file(s); diffs at jules://sessions/${session.id}/plan_`
+      );
+    }
+    if (entry.pullRequestUrl) {
+      lines.push('', `Pull request: ${entry.pullRequestUrl}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Converts an activity to a transcript turn.
+ * @param activity - The activity.
+ * @returns The turn, or undefined for activities without a payload.
+ */
+export function toTranscriptEntry(activity: Activity): TranscriptEntry | undefined {
+  const base = { activity: activity.name, timestamp: activity.timestamp };
+
+  if (activity.messageSent) {
+    return {
+      ...base,
+      speaker: activity.messageSent.sender,
+      kind: 'message',
+      text: activity.messageSent.prompt,
+    };
+  }
+
+  if (activity.planGenerated) {
+    return {
+      ...base,
+      speaker: 'AGENT',
+      kind: 'plan',
+      text: activity.planGenerated.plan,
+      planFiles: activity.planGenerated.changeSet?.changes?.length ?? 0,
+    };
+  }
+
+  if (activity.progressUpdated) {
+    return {
+      ...base,
+      speaker: 'AGENT',
+      kind: 'progress',
+      text: activity.progressUpdated.message,
+      percentage: activity.progressUpdated.percentage,
+    };
+  }
+
+  if (activity.sessionCompleted) {
+    return {
+      ...base,
+      speaker: 'AGENT',
+      kind: 'completion',
+      text:
+        activity.sessionCompleted.message ||
+        (activity.sessionCompleted.success
+          ? 'Session completed.'
+          : 'Session failed.'),
+      success: activity.sessionCompleted.success,
+      pullRequestUrl: activity.sessionCompleted.pullRequestUrl,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes a turn for its Markdown heading.
+ * @param entry - The transcript entry.
+ * @returns The heading text.
+ */
+function describeTurn(entry: TranscriptEntry): string {
+  switch (entry.kind) {
+    case 'prompt':
+      return 'USER (initial prompt)';
+    case 'message':
+      return entry.speaker;
+    case 'plan':
+      return 'AGENT · plan';
+    case 'progress':
+      return entry.percentage !== undefined
+        ? `AGENT · progress ${entry.percentage}%`
+        : 'AGENT · progress';
+    case 'completion':
+      return entry.success ? 'AGENT · completed' : 'AGENT · failed';
+  }
+}
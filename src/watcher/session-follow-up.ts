@@ -0,0 +1,136 @@
+/**
+ * Session Follow-up - Acts on state changes of watched sessions
+ * Records states on the run log, advances the run queue and applies approval
+ * policies. Shared by the MCP server and the CLI daemon.
+ */
+
+import type { PlanApprovalEngine } from '../approval/plan-approval.js';
+import type { CronEngine } from '../scheduler/cron-engine.js';
+import type { ScheduleRepository } from '../storage/repository.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type SessionState,
+} from '../types/jules-api.js';
+import type { ScheduleRunRecord } from '../types/schedule.js';
+import type { SessionWatcher, SessionWatchEvent } from './session-watcher.js';
+
+/** Number of recent run records checked for sessions to watch again on startup */
+const RESUME_SCAN_LIMIT = 200;
+
+/** Runs older than this aren't watched again on startup */
+const RESUME_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Follows up on sessions spawned by schedules or created with an approval policy.
+ */
+export class SessionFollowUp {
+  /**
+   * Creates an instance of SessionFollowUp.
+   * @param storage - The schedule repository holding the run log.
+   * @param scheduler - The scheduler whose run queue advances when sessions finish.
+   * @param watcher - The watcher polling the sessions.
+   * @param approvalEngine - The engine applying approval policies.
+   */
+  constructor(
+    private readonly storage: ScheduleRepository,
+    private readonly scheduler: CronEngine,
+    private readonly watcher: SessionWatcher,
+    private readonly approvalEngine: PlanApprovalEngine
+  ) {}
+
+  /**
+   * Starts watching the session created by a scheduled run.
+   * @param run - The run record.
+   */
+  watchRun(run: ScheduleRunRecord): void {
+    if (run.sessionId) {
+      this.watcher.watch(
+        run.sessionId,
+        { scheduleId: run.scheduleId, runId: run.id },
+        run.sessionState
+      );
+    }
+  }
+
+  /**
+   * Watches sessions of recent scheduled runs that hadn't finished when the
+   * process last stopped. Their state isn't passed on, so the first poll
+   * reports it again; a session awaiting plan approval gets its policy applied.
+   */
+  async watchUnfinishedRuns(): Promise<void> {
+    const runs = await this.storage.listRecentRuns(RESUME_SCAN_LIMIT);
+    const cutoff = Date.now() - RESUME_MAX_AGE_MS;
+    for (const run of runs) {
+      if (
+        run.sessionId &&
+        new Date(run.triggeredAt).getTime() >= cutoff &&
+        !this.watcher.isWatching(run.sessionId) &&
+        !SessionFollowUp.isTerminal(run.sessionState)
+      ) {
+        this.watcher.watch(run.sessionId, {
+          scheduleId: run.scheduleId,
+          runId: run.id,
+        });
+      }
+    }
+  }
+
+  /**
+   * Records a scheduled session's new state on its run log, starts queued
+   * runs when it finishes, and applies the approval policy when its plan is ready.
+   * @param event - The detected change.
+   */
+  async handle(event: SessionWatchEvent): Promise<void> {
+    const { scheduleId, runId } = event.context;
+    if (scheduleId && runId) {
+      await this.storage.updateRunRecord(scheduleId, runId, {
+        sessionState: event.state,
+      });
+
+      // A finished scheduled session frees a concurrency slot
+      if (event.type === 'finished') {
+        await this.scheduler.processQueue();
+      }
+    }
+
+    if (event.type === 'plan_ready') {
+      await this.applyApprovalPolicy(event);
+    } else if (event.type === 'finished') {
+      this.approvalEngine.forget(event.sessionId);
+    }
+  }
+
+  /**
+   * Runs the approval engine for a session whose plan is ready, if the
+   * session (or the schedule that spawned it) has an approval policy.
+   * @param event - The plan_ready event.
+   */
+  private async applyApprovalPolicy(event: SessionWatchEvent): Promise<void> {
+    const { scheduleId, runId } = event.context;
+    const policy =
+      event.context.approvalPolicy ??
+      (scheduleId
+        ? (await this.storage.getTask(scheduleId))?.approvalPolicy
+        : undefined);
+
+    if (!policy) {
+      return;
+    }
+
+    const decision = await this.approvalEngine.review(event.sessionId, policy);
+    if (decision && scheduleId && runId) {
+      await this.storage.updateRunRecord(scheduleId, runId, {
+        approval: decision,
+      });
+    }
+  }
+
+  /**
+   * Checks whether a recorded session state is terminal.
+   * @param state - The recorded state, if any.
+   * @returns True if the session has finished.
+   */
+  private static isTerminal(state: SessionState | undefined): boolean {
+    return state !== undefined && TERMINAL_SESSION_STATES.includes(state);
+  }
+}
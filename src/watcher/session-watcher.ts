@@ -0,0 +1,273 @@
+/**
+ * Session Watcher - Background polling for sessions created by this server
+ * Detects state transitions and reports them so the MCP client doesn't have to poll
+ */
+
+import type { JulesClient } from '../api/jules-client.js';
+import type { ApprovalPolicy } from '../types/approval.js';
+import {
+  TERMINAL_SESSION_STATES,
+  type SessionState,
+} from '../types/jules-api.js';
+
+/** Stop watching a session after this long, whatever its state */
+const MAX_WATCH_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where a watched session came from.
+ */
+export interface WatchContext {
+  /** Schedule that spawned the session, if any */
+  scheduleId?: string;
+  /** Run log entry for the session, if spawned by a schedule */
+  runId?: string;
+  /** Policy for approving the session's plans automatically */
+  approvalPolicy?: ApprovalPolicy;
+}
+
+/**
+ * Kind of change detected for a watched session.
+ * - `state_changed`: The session moved to a new non-terminal state.
+ * - `plan_ready`: The session reached AWAITING_PLAN_APPROVAL.
+ * - `finished`: The session reached a terminal state; watching stops.
+ */
+export type SessionWatchEventType = 'state_changed' | 'plan_ready' | 'finished';
+
+/**
+ * A change detected for a watched session.
+ */
+export interface SessionWatchEvent {
+  /** Kind of change */
+  type: SessionWatchEventType;
+  /** ID of the session */
+  sessionId: string;
+  /** State before the change (undefined on first observation) */
+  previousState?: SessionState;
+  /** Current session state */
+  state: SessionState;
+  /** Whether the session completed successfully (finished events only) */
+  success?: boolean;
+  /** Pull Request URL, if the session produced one (finished events only) */
+  pullRequestUrl?: string;
+  /** Completion message (finished events only) */
+  message?: string;
+  /** Where the session came from */
+  context: WatchContext;
+}
+
+/**
+ * A session being watched.
+ */
+interface WatchEntry {
+  sessionId: string;
+  context: WatchContext;
+  lastState?: SessionState;
+  intervalMs: number;
+  startedAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Polls sessions with backoff and reports state changes.
+ */
+export class SessionWatcher {
+  private readonly watched: Map<string, WatchEntry> = new Map();
+  private readonly baseIntervalMs: number;
+  private readonly maxIntervalMs: number;
+
+  /**
+   * Creates an instance of SessionWatcher.
+   * Poll intervals come from JULES_WATCH_INTERVAL_MS (default: 15s) and
+   * JULES_WATCH_MAX_INTERVAL_MS (default: 5 minutes).
+   * @param client - The client for interacting with the Jules API.
+   * @param onEvent - Callback invoked for every detected change.
+   * @param logger - The logger function to use for polling errors (defaults to console.error).
+   */
+  constructor(
+    private readonly client: JulesClient,
+    private readonly onEvent: (event: SessionWatchEvent) => void,
+    private readonly logger: (message: string) => void = console.error
+  ) {
+    this.baseIntervalMs = Number(process.env.JULES_WATCH_INTERVAL_MS || 15000);
+    this.maxIntervalMs = Number(
+      process.env.JULES_WATCH_MAX_INTERVAL_MS || 300000
+    );
+  }
+
+  /**
+   * Starts watching a session. Watching an already-watched session
+   * merges the context and resets its poll interval.
+   * @param sessionId - The ID of the session to watch.
+   * @param context - Where the session came from (optional).
+   * @param knownState - The session's current state, if already known (optional).
+   */
+  watch(
+    sessionId: string,
+    context: WatchContext = {},
+    knownState?: SessionState
+  ): void {
+    const existing = this.watched.get(sessionId);
+    if (existing) {
+      existing.context = { ...existing.context, ...context };
+      this.schedulePoll(existing, this.baseIntervalMs);
+      return;
+    }
+
+    const entry: WatchEntry = {
+      sessionId,
+      context,
+      lastState: knownState,
+      intervalMs: this.baseIntervalMs,
+      startedAt: Date.now(),
+    };
+    this.watched.set(sessionId, entry);
+    this.schedulePoll(entry, this.baseIntervalMs);
+  }
+
+  /**
+   * Stops watching a session.
+   * @param sessionId - The ID of the session.
+   */
+  unwatch(sessionId: string): void {
+    const entry = this.watched.get(sessionId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.watched.delete(sessionId);
+    }
+  }
+
+  /**
+   * Checks whether a session is being watched.
+   * @param sessionId - The ID of the session.
+   * @returns True if the session is being watched.
+   */
+  isWatching(sessionId: string): boolean {
+    return this.watched.has(sessionId);
+  }
+
+  /**
+   * Lists the IDs of all watched sessions.
+   * @returns An array of session IDs.
+   */
+  listWatched(): string[] {
+    return [...this.watched.keys()];
+  }
+
+  /**
+   * Stops all polling.
+   */
+  shutdown(): void {
+    for (const entry of this.watched.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.watched.clear();
+  }
+
+  /**
+   * Arms the next poll for a session.
+   * @param entry - The watched session.
+   * @param delayMs - Delay before polling.
+   */
+  private schedulePoll(entry: WatchEntry, delayMs: number): void {
+    clearTimeout(entry.timer);
+    entry.intervalMs = delayMs;
+    entry.timer = setTimeout(() => {
+      void this.poll(entry);
+    }, delayMs);
+    // Don't keep the process alive just to poll
+    entry.timer.unref();
+  }
+
+  /**
+   * Polls a session once and emits events for any change.
+   * Resets the interval on change and backs off otherwise.
+   * @param entry - The watched session.
+   */
+  private async poll(entry: WatchEntry): Promise<void> {
+    if (this.watched.get(entry.sessionId) !== entry) {
+      return;
+    }
+
+    if (Date.now() - entry.startedAt > MAX_WATCH_DURATION_MS) {
+      this.logger(`Stopped watching session ${entry.sessionId}: time limit reached`);
+      this.unwatch(entry.sessionId);
+      return;
+    }
+
+    let changed = false;
+
+    try {
+      const session = await this.client.getSession(entry.sessionId);
+      const state = session.state ?? 'SESSION_STATE_UNSPECIFIED';
+
+      if (state !== entry.lastState) {
+        changed = true;
+        const previousState = entry.lastState;
+        entry.lastState = state;
+
+        if (TERMINAL_SESSION_STATES.includes(state)) {
+          await this.emitFinished(entry, previousState, state);
+          this.unwatch(entry.sessionId);
+          return;
+        }
+
+        this.onEvent({
+          type: state === 'AWAITING_PLAN_APPROVAL' ? 'plan_ready' : 'state_changed',
+          sessionId: entry.sessionId,
+          previousState,
+          state,
+          context: entry.context,
+        });
+      }
+    } catch (error) {
+      this.logger(
+        `Failed to poll session ${entry.sessionId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (this.watched.get(entry.sessionId) === entry) {
+      const nextDelay = changed
+        ? this.baseIntervalMs
+        : Math.min(entry.intervalMs * 2, this.maxIntervalMs);
+      this.schedulePoll(entry, nextDelay);
+    }
+  }
+
+  /**
+   * Emits a finished event, enriched with the completion activity if available.
+   * @param entry - The watched session.
+   * @param previousState - The state before the change.
+   * @param state - The terminal state.
+   */
+  private async emitFinished(
+    entry: WatchEntry,
+    previousState: SessionState | undefined,
+    state: SessionState
+  ): Promise<void> {
+    let completion:
+      | { success: boolean; message?: string; pullRequestUrl?: string }
+      | undefined;
+
+    try {
+      const activities = await this.client.listAllActivities(entry.sessionId);
+      completion = [...activities]
+        .reverse()
+        .find((activity) => activity.sessionCompleted)?.sessionCompleted;
+    } catch (error) {
+      this.logger(
+        `Failed to fetch activities for session ${entry.sessionId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    this.onEvent({
+      type: 'finished',
+      sessionId: entry.sessionId,
+      previousState,
+      state,
+      success: completion?.success ?? state === 'COMPLETED',
+      pullRequestUrl: completion?.pullRequestUrl,
+      message: completion?.message,
+      context: entry.context,
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConcurrencyLimits } from '../src/scheduler/concurrency.js';
+
+describe('getConcurrencyLimits', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is unlimited unless configured', () => {
+    vi.stubEnv('JULES_SCHEDULER_MAX_CONCURRENT', '');
+    vi.stubEnv('JULES_SCHEDULER_MAX_PER_REPO', '');
+
+    expect(getConcurrencyLimits()).toEqual({ maxConcurrent: 0, maxPerRepo: 0 });
+  });
+
+  it('reads the configured limits', () => {
+    vi.stubEnv('JULES_SCHEDULER_MAX_CONCURRENT', '5');
+    vi.stubEnv('JULES_SCHEDULER_MAX_PER_REPO', '1');
+
+    expect(getConcurrencyLimits()).toEqual({ maxConcurrent: 5, maxPerRepo: 1 });
+  });
+});
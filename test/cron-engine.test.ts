@@ -0,0 +1,310 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CronEngine } from '../src/scheduler/cron-engine.js';
+import { JulesAPIError, type JulesClient } from '../src/api/jules-client.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+import type { CreateSessionRequest } from '../src/types/jules-api.js';
+import type { ScheduledTask } from '../src/types/schedule.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Hourly deps',
+    cron: '0 * * * *',
+    taskPayload: {
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      automationMode: 'AUTO_CREATE_PR',
+    },
+    enabled: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    timezone: 'UTC',
+    ...overrides,
+  };
+}
+
+/**
+ * Minimal in-memory repository; returns copies like the SQLite backend.
+ */
+function makeStorage(tasks: ScheduledTask[]) {
+  const schedules = new Map(tasks.map((task) => [task.id, task]));
+  return {
+    schedules,
+    getTask: async (id: string) => {
+      const task = schedules.get(id);
+      return task && structuredClone(task);
+    },
+    listTasks: async () =>
+      [...schedules.values()].map((task) => structuredClone(task)),
+    patchTask: async (id: string, changes: Partial<ScheduledTask>) => {
+      const task = schedules.get(id);
+      if (task) {
+        schedules.set(id, { ...task, ...changes });
+      }
+    },
+    updateLastRun: vi.fn(async () => {}),
+    appendRunRecord: vi.fn(async () => {}),
+    listQueuedRuns: async () => [],
+    getRunHistory: async () => ({ entries: [], total: 0 }),
+  };
+}
+
+describe('CronEngine with schedules changed by another process', () => {
+  let storage: ReturnType<typeof makeStorage>;
+  let engine: CronEngine;
+  let dispatched: ScheduledTask[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-02T10:30:00Z'));
+    storage = makeStorage([makeTask()]);
+    engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      {} as JulesClient,
+      () => {}
+    );
+    dispatched = [];
+    vi.spyOn(engine, 'dispatchTask').mockImplementation(async (task) => {
+      dispatched.push(task);
+      return undefined;
+    });
+  });
+
+  afterEach(() => {
+    engine.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('fires with the stored task rather than the one it was armed with', async () => {
+    engine.scheduleTask(makeTask());
+    storage.schedules.set('task-1', makeTask({ name: 'Renamed' }));
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+
+    expect(dispatched.map((task) => task.name)).toEqual(['Renamed']);
+  });
+
+  it('drops the firing of a paused task and cancels its job', async () => {
+    engine.scheduleTask(makeTask());
+    storage.schedules.set('task-1', makeTask({ enabled: false }));
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+
+    expect(dispatched).toEqual([]);
+    expect(engine.getNextInvocation('task-1')).toBeNull();
+  });
+
+  it('drops the firing of a deleted task and cancels its job', async () => {
+    engine.scheduleTask(makeTask());
+    storage.schedules.delete('task-1');
+
+    await vi.advanceTimersByTimeAsync(HOUR);
+
+    expect(dispatched).toEqual([]);
+    expect(engine.getNextInvocation('task-1')).toBeNull();
+  });
+
+  it('arms added tasks, re-arms edited ones and cancels removed ones on sync', async () => {
+    engine.scheduleTask(makeTask());
+    engine.scheduleTask(makeTask({ id: 'task-2', name: 'Going away' }));
+
+    storage.schedules.set('task-1', makeTask({ cron: '45 * * * *' }));
+    storage.schedules.set(
+      'task-3',
+      makeTask({ id: 'task-3', cron: '0 12 * * *' })
+    );
+    storage.schedules.set('task-4', makeTask({ id: 'task-4', enabled: false }));
+    await engine.syncTasks();
+
+    expect(engine.getNextInvocation('task-1')?.toISOString()).toBe(
+      '2025-06-02T10:45:00.000Z'
+    );
+    expect(engine.getNextInvocation('task-2')).toBeNull();
+    expect(engine.getNextInvocation('task-3')?.toISOString()).toBe(
+      '2025-06-02T12:00:00.000Z'
+    );
+    expect(engine.getNextInvocation('task-4')).toBeNull();
+  });
+});
+
+describe('CronEngine.dispatchTask', () => {
+  it('starts the run with the stored task rather than the one passed in', async () => {
+    const storage = makeStorage([
+      makeTask({
+        taskPayload: {
+          prompt: 'Update dependencies and lockfiles',
+          source: 'sources/github/owner/repo',
+          automationMode: 'AUTO_CREATE_PR',
+        },
+      }),
+    ]);
+    const client = {
+      createSession: vi.fn(async () => ({ id: 'session-2', state: 'QUEUED' })),
+    };
+    const engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      client as unknown as JulesClient,
+      () => {}
+    );
+
+    await engine.dispatchTask(makeTask(), 'catch_up');
+
+    expect(client.createSession).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: 'Update dependencies and lockfiles' })
+    );
+  });
+
+  it('drops catch-up runs of a task paused since it was loaded', async () => {
+    const storage = makeStorage([makeTask({ enabled: false })]);
+    const client = { createSession: vi.fn() };
+    const engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      client as unknown as JulesClient,
+      () => {}
+    );
+
+    expect(await engine.dispatchTask(makeTask(), 'catch_up')).toBeUndefined();
+    expect(client.createSession).not.toHaveBeenCalled();
+  });
+
+  it('records the manual session without advancing lastRun', async () => {
+    const storage = makeStorage([
+      makeTask({ lastRun: '2025-06-02T07:00:00.000Z' }),
+    ]);
+    const client = {
+      createSession: async () => ({ id: 'session-2', state: 'QUEUED' }),
+    };
+    const engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      client as unknown as JulesClient,
+      () => {}
+    );
+
+    const run = await engine.dispatchTask(makeTask(), 'manual');
+
+    expect(run).toMatchObject({ status: 'success', trigger: 'manual' });
+    expect(storage.updateLastRun).not.toHaveBeenCalled();
+    expect(storage.schedules.get('task-1')).toMatchObject({
+      lastRun: '2025-06-02T07:00:00.000Z',
+      lastSessionId: 'session-2',
+    });
+  });
+
+  it('applies the overlap policy to manual runs', async () => {
+    const storage = makeStorage([
+      makeTask({ overlapPolicy: 'skip', lastSessionId: 'session-1' }),
+    ]);
+    const client = {
+      getSession: async () => ({ id: 'session-1', state: 'IN_PROGRESS' }),
+      createSession: vi.fn(),
+    };
+    const engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      client as unknown as JulesClient,
+      () => {}
+    );
+
+    const run = await engine.dispatchTask(
+      makeTask({ overlapPolicy: 'skip', lastSessionId: 'session-1' }),
+      'manual'
+    );
+
+    expect(run).toBeUndefined();
+    expect(client.createSession).not.toHaveBeenCalled();
+    expect(storage.schedules.get('task-1')?.lastOverlap).toMatchObject({
+      action: 'skipped',
+      previousSessionId: 'session-1',
+    });
+  });
+});
+
+describe('CronEngine.executeTask', () => {
+  function setup(getSource: () => Promise<unknown>) {
+    const storage = {
+      ...makeStorage([makeTask()]),
+      getRunHistory: async () => ({
+        entries: [{ sessionId: 'session-1', startingBranch: 'develop' }],
+        total: 1,
+      }),
+    };
+    const client = {
+      getSource: vi.fn(getSource),
+      createSession: vi.fn(async (_request: CreateSessionRequest) => ({
+        id: 'session-2',
+        state: 'QUEUED',
+      })),
+    };
+    const engine = new CronEngine(
+      storage as unknown as ScheduleRepository,
+      client as unknown as JulesClient,
+      () => {}
+    );
+    return { engine, client };
+  }
+
+  function startingBranch(client: ReturnType<typeof setup>['client']) {
+    return client.createSession.mock.calls[0][0].sourceContext
+      .githubRepoContext?.startingBranch;
+  }
+
+  it("records the repository's default branch on the run", async () => {
+    const { engine, client } = setup(async () => ({
+      githubRepo: { defaultBranch: 'trunk' },
+    }));
+
+    const run = await engine.executeTask(makeTask(), 'scheduled');
+
+    expect(startingBranch(client)).toBe('trunk');
+    expect(run.startingBranch).toBe('trunk');
+  });
+
+  it('reuses the last branch when the source read fails transiently', async () => {
+    const { engine, client } = setup(async () => {
+      throw new JulesAPIError('Service unavailable', 503);
+    });
+
+    const run = await engine.executeTask(makeTask(), 'scheduled');
+
+    expect(run).toMatchObject({ status: 'success', attempts: 1 });
+    expect(startingBranch(client)).toBe('develop');
+  });
+
+  it('uses the fallback branch when the source is gone', async () => {
+    vi.stubEnv('JULES_DEFAULT_BRANCH', '');
+    const { engine, client } = setup(async () => {
+      throw new JulesAPIError('Not found', 404);
+    });
+
+    await engine.executeTask(makeTask(), 'scheduled');
+
+    expect(startingBranch(client)).toBe('main');
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('CronEngine.getMissedOccurrences', () => {
+  const now = new Date('2025-06-02T10:30:00Z');
+
+  it('counts firings since the last run', () => {
+    const task = makeTask({ lastRun: '2025-06-02T07:00:00.000Z' });
+
+    expect(CronEngine.getMissedOccurrences(task, now)).toHaveLength(3);
+  });
+
+  it("doesn't count firings an earlier catch-up already skipped", () => {
+    const task = makeTask({
+      lastRun: '2025-06-02T07:00:00.000Z',
+      lastCatchUp: {
+        at: '2025-06-02T09:15:00.000Z',
+        missed: 2,
+        executed: 0,
+        policy: 'skip',
+      },
+    });
+
+    expect(CronEngine.getMissedOccurrences(task, now)).toEqual([
+      new Date('2025-06-02T10:00:00.000Z'),
+    ]);
+  });
+});
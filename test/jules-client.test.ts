@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JulesAPIError, JulesClient } from '../src/api/jules-client.js';
+import { ResponseCache } from '../src/api/response-cache.js';
+
+const SESSION = { id: 's1', state: 'QUEUED' };
+
+function reply(status: number, body: unknown = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function connectionRefused(): Error {
+  return new TypeError('fetch failed', {
+    cause: Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED',
+    }),
+  });
+}
+
+const REQUEST = {
+  prompt: 'Update dependencies',
+  sourceContext: { source: 'sources/github/owner/repo' },
+};
+
+describe('JulesClient retries', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let client: JulesClient;
+
+  beforeEach(() => {
+    vi.stubEnv('JULES_API_RETRY_BASE_MS', '1');
+    vi.stubEnv('JULES_API_RATE_LIMIT_RPM', '0');
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    client = new JulesClient('test-key');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('retries reads after a 5xx', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(500))
+      .mockResolvedValueOnce(reply(200, SESSION));
+
+    await expect(client.getSession('s1')).resolves.toEqual(SESSION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries createSession after a 5xx', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(503))
+      .mockResolvedValueOnce(reply(200, SESSION));
+
+    await expect(client.createSession(REQUEST)).resolves.toEqual(SESSION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on createSession after a bounded number of 5xx', async () => {
+    fetchMock.mockImplementation(async () => reply(500));
+
+    const error = await client.createSession(REQUEST).catch((e) => e);
+
+    expect(error).toBeInstanceOf(JulesAPIError);
+    expect(error.statusCode).toBe(500);
+    expect(error.attempts).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry createSession after a timeout", async () => {
+    fetchMock.mockRejectedValue(
+      new DOMException('This operation was aborted', 'AbortError')
+    );
+
+    await expect(client.createSession(REQUEST)).rejects.toThrow(
+      'Network error'
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries createSession after a 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(429))
+      .mockResolvedValueOnce(reply(200, SESSION));
+
+    await expect(client.createSession(REQUEST)).resolves.toEqual(SESSION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries createSession after a failure to connect', async () => {
+    fetchMock
+      .mockRejectedValueOnce(connectionRefused())
+      .mockResolvedValueOnce(reply(200, SESSION));
+
+    await expect(client.createSession(REQUEST)).resolves.toEqual(SESSION);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports the attempts made when retries run out', async () => {
+    fetchMock.mockImplementation(async () => reply(429));
+
+    const error = await client.createSession(REQUEST).catch((e) => e);
+
+    expect(error.statusCode).toBe(429);
+    expect(error.attempts).toBe(3);
+  });
+});
+
+describe('JulesClient cache invalidation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('drops cached session list pages only', async () => {
+    const cache = new ResponseCache(60_000);
+    const load = vi.fn(async () => ({}));
+    await cache.getOrLoad('/sessions?pageSize=20', load);
+    await cache.getOrLoad('/sessions/s1', load);
+
+    cache.invalidatePrefix('/sessions?');
+    await cache.getOrLoad('/sessions?pageSize=20', load);
+    await cache.getOrLoad('/sessions/s1', load);
+
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(cache.getStats().invalidations).toBe(1);
+  });
+
+  it('drops cached session lists after createSession, even if it fails', async () => {
+    const invalidatePrefix = vi.spyOn(
+      ResponseCache.prototype,
+      'invalidatePrefix'
+    );
+    vi.stubGlobal('fetch', vi.fn(async () => reply(400)));
+
+    await expect(
+      new JulesClient('test-key').createSession(REQUEST)
+    ).rejects.toBeInstanceOf(JulesAPIError);
+    expect(invalidatePrefix).toHaveBeenCalledWith('/sessions?');
+  });
+});
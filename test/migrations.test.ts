@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { copyFile, mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { ScheduleStorage } from '../src/storage/schedule-store.js';
+import { migrateStore, STORE_VERSION } from '../src/storage/migrations.js';
+import type { ScheduleStore } from '../src/types/schedule.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/', import.meta.url));
+
+describe('schedule store migrations', () => {
+  let dir: string;
+  let storePath: string;
+  let logger: ReturnType<typeof vi.fn>;
+
+  async function openFixture(version: string): Promise<ScheduleStorage> {
+    await copyFile(join(FIXTURES, `schedules-${version}.json`), storePath);
+    return new ScheduleStorage(storePath, logger);
+  }
+
+  async function readStore(): Promise<ScheduleStore> {
+    return JSON.parse(await readFile(storePath, 'utf-8')) as ScheduleStore;
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jules-store-'));
+    storePath = join(dir, 'schedules.json');
+    logger = vi.fn();
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each(['1.0.0', '1.1.0'])(
+    'migrates a %s store and keeps the original as a backup',
+    async (version) => {
+      const original = await readFile(
+        join(FIXTURES, `schedules-${version}.json`),
+        'utf-8'
+      );
+      const storage = await openFixture(version);
+
+      const tasks = await storage.listTasks();
+
+      const migrated = await readStore();
+      expect(migrated.version).toBe(STORE_VERSION);
+      expect(migrated.history).toBeDefined();
+      expect(migrated.queue).toEqual([]);
+      for (const task of Object.values(migrated.schedules)) {
+        expect(typeof task.enabled).toBe('boolean');
+      }
+      expect(tasks).toHaveLength(Object.keys(migrated.schedules).length);
+
+      const backupPath = `${storePath}.v${version}.bak`;
+      expect(await readFile(backupPath, 'utf-8')).toBe(original);
+      expect(logger).toHaveBeenCalledWith(
+        expect.stringContaining(`previous file kept at ${backupPath}`)
+      );
+    }
+  );
+
+  it('fills in enabled and history for a 1.0.0 store', async () => {
+    const storage = await openFixture('1.0.0');
+
+    const deps = await storage.getTaskByName('Weekly deps');
+    const lint = await storage.getTaskByName('Nightly lint');
+
+    expect(deps?.enabled).toBe(true);
+    expect(lint?.enabled).toBe(false);
+    expect((await readStore()).history).toEqual({});
+  });
+
+  it('keeps the run history of a 1.1.0 store', async () => {
+    const storage = await openFixture('1.1.0');
+
+    const page = await storage.getRunHistory(
+      '6f1c2b0e-0000-4000-8000-000000000001'
+    );
+
+    expect(page.total).toBe(1);
+    expect(page.entries[0].sessionId).toBe('111');
+  });
+
+  it('loads a current store as is without a backup', async () => {
+    const original = await readFile(
+      join(FIXTURES, `schedules-${STORE_VERSION}.json`),
+      'utf-8'
+    );
+    const storage = await openFixture(STORE_VERSION);
+
+    expect(await storage.listQueuedRuns()).toHaveLength(1);
+    expect(await storage.listTasks()).toHaveLength(1);
+    expect(await readFile(storePath, 'utf-8')).toBe(original);
+    expect(existsSync(`${storePath}.v${STORE_VERSION}.bak`)).toBe(false);
+  });
+
+  it('refuses a store from a newer version and leaves it untouched', async () => {
+    const storage = await openFixture('9.0.0');
+    const before = await stat(storePath);
+    const original = await readFile(storePath, 'utf-8');
+
+    await expect(storage.listTasks()).rejects.toThrow(
+      `Schedule store version 9.0.0 is newer than this server supports (${STORE_VERSION})`
+    );
+    await expect(
+      storage.deleteTask('6f1c2b0e-0000-4000-8000-000000000001')
+    ).rejects.toThrow('newer than this server supports');
+
+    expect(await readFile(storePath, 'utf-8')).toBe(original);
+    expect((await stat(storePath)).mtimeMs).toBe(before.mtimeMs);
+    expect(existsSync(`${storePath}.v9.0.0.bak`)).toBe(false);
+  });
+
+  it('treats a store without a version as 1.0.0', () => {
+    const { store, applied } = migrateStore({
+      schedules: {},
+    } as unknown as ScheduleStore);
+
+    expect(store.version).toBe(STORE_VERSION);
+    expect(applied).toHaveLength(2);
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PlanApprovalEngine } from '../src/approval/plan-approval.js';
+import { JulesAPIError, type JulesClient } from '../src/api/jules-client.js';
+
+describe('PlanApprovalEngine.evaluate', () => {
+  const policy = { maxChangedLines: 10 };
+
+  it('counts lines from provided and computed diffs', () => {
+    const evaluation = PlanApprovalEngine.evaluate(policy, {
+      changes: [
+        {
+          path: 'README.md',
+          diff: '--- a/README.md\n+++ b/README.md\n@@ -1 +1 @@\n-old\n+new\n',
+        },
+        { path: 'NOTES.md', oldContent: 'a\n', newContent: 'a\nb\n' },
+      ],
+    });
+
+    expect(evaluation).toMatchObject({
+      evaluable: true,
+      violations: [],
+      files: 2,
+      changedLines: 3,
+    });
+  });
+
+  it('rejects plans over the line limit', () => {
+    const evaluation = PlanApprovalEngine.evaluate(policy, {
+      changes: [{ path: 'big.txt', newContent: 'line\n'.repeat(20) }],
+    });
+
+    expect(evaluation.violations).toEqual([
+      'Plan changes 20 lines; the limit is 10',
+    ]);
+  });
+
+  it("isn't evaluable when a file is too large to diff", () => {
+    const evaluation = PlanApprovalEngine.evaluate(policy, {
+      changes: [
+        { path: 'small.txt', newContent: 'ok\n' },
+        { path: 'huge.txt', newContent: 'x\n'.repeat(600000) },
+      ],
+    });
+
+    expect(evaluation).toMatchObject({
+      evaluable: false,
+      reason: "Changed lines can't be counted for huge.txt",
+    });
+  });
+
+  it("isn't evaluable when a file has neither a diff nor contents", () => {
+    const evaluation = PlanApprovalEngine.evaluate(policy, {
+      changes: [{ path: 'mystery.bin' }],
+    });
+
+    expect(evaluation.evaluable).toBe(false);
+    expect(evaluation.reason).toContain('mystery.bin');
+  });
+
+  it("isn't evaluable without changes", () => {
+    expect(PlanApprovalEngine.evaluate(policy, { changes: [] })).toMatchObject(
+      { evaluable: false, reason: 'Plan has no change set to evaluate' }
+    );
+  });
+});
+
+describe('PlanApprovalEngine.review', () => {
+  const plan = {
+    name: 'sessions/1/activities/plan-1',
+    planGenerated: {
+      changeSet: {
+        changes: [{ path: 'docs/a.md', oldContent: 'a\n', newContent: 'b\n' }],
+      },
+    },
+  };
+
+  function makeEngine(approvePlan: () => Promise<unknown>) {
+    const client = {
+      listAllActivities: async () => [plan],
+      approvePlan: vi.fn(approvePlan),
+    };
+    const engine = new PlanApprovalEngine(
+      client as unknown as JulesClient,
+      () => {}
+    );
+    return { engine, client };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries a transient approval failure', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const { engine, client } = makeEngine(async () => {
+      if (++calls < 3) {
+        throw new JulesAPIError('Service unavailable', 503);
+      }
+      return {};
+    });
+
+    const review = engine.review('1', {});
+    await vi.runAllTimersAsync();
+
+    expect(await review).toMatchObject({ outcome: 'approved' });
+    expect(client.approvePlan).toHaveBeenCalledTimes(3);
+  });
+
+  it('evaluates the plan again after approval failed', async () => {
+    const { engine, client } = makeEngine(async () => {
+      throw new JulesAPIError('Bad request', 400);
+    });
+
+    const first = await engine.review('1', {});
+    const second = await engine.review('1', {});
+
+    expect(first).toMatchObject({
+      outcome: 'manual',
+      reasons: ['Could not approve the plan: Bad request'],
+    });
+    expect(second).not.toBeNull();
+    expect(client.approvePlan).toHaveBeenCalledTimes(2);
+  });
+
+  it('evaluates each plan once until the session is forgotten', async () => {
+    const { engine } = makeEngine(async () => ({}));
+
+    expect(await engine.review('1', {})).not.toBeNull();
+    expect(await engine.review('1', {})).toBeNull();
+    engine.forget('1');
+    expect(await engine.review('1', {})).not.toBeNull();
+  });
+
+  it('leaves a plan with unmeasurable changes for manual review', async () => {
+    const client = {
+      listAllActivities: async () => [
+        {
+          name: 'sessions/1/activities/plan-1',
+          planGenerated: {
+            changeSet: {
+              changes: [{ path: 'huge.txt', newContent: 'x\n'.repeat(600000) }],
+            },
+          },
+        },
+      ],
+      approvePlan: vi.fn(),
+      sendMessage: vi.fn(),
+    };
+    const engine = new PlanApprovalEngine(
+      client as unknown as JulesClient,
+      () => {}
+    );
+
+    const decision = await engine.review('1', { maxChangedLines: 10 });
+
+    expect(decision).toMatchObject({
+      outcome: 'manual',
+      reasons: ["Changed lines can't be counted for huge.txt"],
+    });
+    expect(client.approvePlan).not.toHaveBeenCalled();
+    expect(client.sendMessage).not.toHaveBeenCalled();
+  });
+});
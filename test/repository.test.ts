@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScheduleStorage } from '../src/storage/schedule-store.js';
+import { SqliteScheduleStorage } from '../src/storage/sqlite-store.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+import type {
+  QueuedRun,
+  ScheduledTask,
+  ScheduleRunRecord,
+} from '../src/types/schedule.js';
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Weekly deps',
+    cron: '0 9 * * 1',
+    taskPayload: {
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      automationMode: 'AUTO_CREATE_PR',
+    },
+    enabled: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeRun(
+  overrides: Partial<ScheduleRunRecord> = {}
+): ScheduleRunRecord {
+  return {
+    id: 'run-1',
+    scheduleId: 'task-1',
+    triggeredAt: new Date().toISOString(),
+    trigger: 'scheduled',
+    finishedAt: new Date().toISOString(),
+    attempts: 1,
+    status: 'success',
+    sessionId: 'session-1',
+    ...overrides,
+  };
+}
+
+function makeQueuedRun(overrides: Partial<QueuedRun> = {}): QueuedRun {
+  return {
+    id: 'queued-1',
+    scheduleId: 'task-1',
+    source: 'sources/github/owner/repo',
+    trigger: 'scheduled',
+    enqueuedAt: '2025-06-02T09:00:00.000Z',
+    reason: 'limit reached',
+    ...overrides,
+  };
+}
+
+describe.each([
+  {
+    backend: 'json',
+    create: (dir: string) => new ScheduleStorage(join(dir, 'schedules.json')),
+  },
+  {
+    backend: 'sqlite',
+    create: (dir: string) =>
+      new SqliteScheduleStorage(join(dir, 'schedules.db')),
+  },
+])('ScheduleRepository contract ($backend)', ({ create }) => {
+  let dir: string;
+  let storage: ScheduleRepository;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jules-repo-'));
+    storage = create(dir);
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stores, finds and lists tasks', async () => {
+    await storage.upsertTask(makeTask());
+    await storage.upsertTask(makeTask({ id: 'task-2', name: 'Nightly lint' }));
+
+    expect(await storage.getTask('task-1')).toEqual(makeTask());
+    expect((await storage.getTaskByName('Nightly lint'))?.id).toBe('task-2');
+    expect(await storage.getTask('missing')).toBeUndefined();
+    expect(await storage.listTasks()).toHaveLength(2);
+  });
+
+  it('patches only the given fields', async () => {
+    await storage.upsertTask(makeTask({ lastRun: '2025-06-02T09:00:00.000Z' }));
+
+    const patched = await storage.patchTask('task-1', { enabled: false });
+
+    expect(patched).toMatchObject({
+      enabled: false,
+      lastRun: '2025-06-02T09:00:00.000Z',
+    });
+    expect(await storage.getTask('task-1')).toEqual(patched);
+    expect(await storage.patchTask('missing', { enabled: false })).toBe(
+      undefined
+    );
+  });
+
+  it('records the last run', async () => {
+    await storage.upsertTask(makeTask());
+
+    await storage.updateLastRun('task-1', '2025-06-02T09:00:00.000Z', 's1');
+
+    expect(await storage.getTask('task-1')).toMatchObject({
+      lastRun: '2025-06-02T09:00:00.000Z',
+      lastSessionId: 's1',
+    });
+  });
+
+  it('pages run history newest first and updates records', async () => {
+    await storage.upsertTask(makeTask());
+    for (let i = 1; i <= 3; i++) {
+      await storage.appendRunRecord(
+        makeRun({
+          id: `run-${i}`,
+          sessionId: `session-${i}`,
+          triggeredAt: new Date(Date.now() - (4 - i) * 1000).toISOString(),
+        })
+      );
+    }
+
+    const first = await storage.getRunHistory('task-1', 0, 2);
+    expect(first.entries.map((run) => run.id)).toEqual(['run-3', 'run-2']);
+    expect(first.total).toBe(3);
+    expect(first.nextOffset).toBe(2);
+
+    const second = await storage.getRunHistory('task-1', 2, 2);
+    expect(second.entries.map((run) => run.id)).toEqual(['run-1']);
+    expect(second.nextOffset).toBeUndefined();
+
+    expect(
+      await storage.updateRunRecord('task-1', 'run-1', {
+        sessionState: 'COMPLETED',
+      })
+    ).toBe(true);
+    expect(await storage.updateRunRecord('task-1', 'missing', {})).toBe(false);
+    expect(
+      (await storage.listRecentRuns(10)).find((run) => run.id === 'run-1')
+        ?.sessionState
+    ).toBe('COMPLETED');
+  });
+
+  it('ignores run records and queue entries of unknown schedules', async () => {
+    await storage.appendRunRecord(makeRun({ scheduleId: 'missing' }));
+    await storage.enqueueRun(makeQueuedRun({ scheduleId: 'missing' }));
+
+    expect(await storage.listRecentRuns()).toEqual([]);
+    expect(await storage.listQueuedRuns()).toEqual([]);
+  });
+
+  it('maps scheduled sessions to their schedule', async () => {
+    await storage.upsertTask(makeTask({ lastSessionId: 'session-0' }));
+    await storage.appendRunRecord(makeRun());
+
+    const sessions = await storage.getScheduledSessionIds();
+
+    expect(sessions.get('session-0')).toBe('task-1');
+    expect(sessions.get('session-1')).toBe('task-1');
+  });
+
+  it('queues runs oldest first and dequeues them', async () => {
+    await storage.upsertTask(makeTask());
+    await storage.enqueueRun(
+      makeQueuedRun({ id: 'queued-2', enqueuedAt: '2025-06-02T10:00:00.000Z' })
+    );
+    await storage.enqueueRun(makeQueuedRun());
+
+    expect((await storage.listQueuedRuns()).map((entry) => entry.id)).toEqual([
+      'queued-1',
+      'queued-2',
+    ]);
+    expect(await storage.dequeueRun('queued-1')).toBe(true);
+    expect(await storage.dequeueRun('queued-1')).toBe(false);
+    expect(await storage.listQueuedRuns()).toHaveLength(1);
+  });
+
+  it('deletes a task with its history and queued runs', async () => {
+    await storage.upsertTask(makeTask());
+    await storage.appendRunRecord(makeRun());
+    await storage.enqueueRun(makeQueuedRun());
+
+    expect(await storage.deleteTask('task-1')).toBe(true);
+    expect(await storage.deleteTask('task-1')).toBe(false);
+    expect(await storage.getTask('task-1')).toBeUndefined();
+    expect((await storage.getRunHistory('task-1')).total).toBe(0);
+    expect(await storage.listQueuedRuns()).toEqual([]);
+  });
+
+  it('persists across instances', async () => {
+    await storage.upsertTask(makeTask());
+    await storage.appendRunRecord(makeRun());
+    await storage.close();
+
+    storage = create(dir);
+
+    expect(await storage.getTask('task-1')).toEqual(makeTask());
+    expect((await storage.getRunHistory('task-1')).total).toBe(1);
+  });
+});
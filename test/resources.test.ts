@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JulesResources } from '../src/mcp/resources.js';
+import type { JulesClient } from '../src/api/jules-client.js';
+import type { CronEngine } from '../src/scheduler/cron-engine.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+
+function setup() {
+  const pages: Array<{ offset: number; limit: number }> = [];
+  const storage = {
+    getTask: async () => ({ id: 'task-1', name: 'Weekly deps' }),
+    getRunHistory: async (_id: string, offset: number, limit: number) => {
+      pages.push({ offset, limit });
+      return { entries: [], total: 0 };
+    },
+  };
+  const resources = new JulesResources(
+    {} as JulesClient,
+    storage as unknown as ScheduleRepository,
+    {} as CronEngine
+  );
+  return { resources, pages };
+}
+
+describe('JulesResources.getScheduleRunHistory', () => {
+  it.each([0, -5, 2.5, NaN])('rejects a limit of %s', async (limit) => {
+    const { resources, pages } = setup();
+
+    await expect(
+      resources.getScheduleRunHistory('task-1', undefined, limit)
+    ).rejects.toThrow(/Invalid history limit/);
+    expect(pages).toEqual([]);
+  });
+
+  it('caps the page size at 100', async () => {
+    const { resources, pages } = setup();
+
+    await resources.getScheduleRunHistory('task-1', '40', 500);
+
+    expect(pages).toEqual([{ offset: 40, limit: 100 }]);
+  });
+});
+
+describe('JulesResources.getSessionFull', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reports the configured fallback branch when the session has none', async () => {
+    vi.stubEnv('JULES_DEFAULT_BRANCH', 'develop');
+    const client = {
+      getSession: async () => ({
+        id: 'session-1',
+        prompt: 'Fix it',
+        sourceContext: { source: 'sources/github/owner/repo' },
+      }),
+      listAllActivities: async () => [],
+    };
+    const resources = new JulesResources(
+      client as unknown as JulesClient,
+      {} as ScheduleRepository,
+      {} as CronEngine
+    );
+
+    const full = JSON.parse(await resources.getSessionFull('session-1'));
+
+    expect(full.session.branch).toBe('develop');
+  });
+});
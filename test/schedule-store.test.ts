@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScheduleStorage } from '../src/storage/schedule-store.js';
+import type { ScheduledTask } from '../src/types/schedule.js';
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Weekly deps',
+    cron: '0 9 * * 1',
+    taskPayload: {
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      automationMode: 'AUTO_CREATE_PR',
+    },
+    enabled: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('ScheduleStorage', () => {
+  let dir: string;
+  let storePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jules-store-'));
+    storePath = join(dir, 'schedules.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reloads changes written by another instance', async () => {
+    const first = new ScheduleStorage(storePath);
+    const second = new ScheduleStorage(storePath);
+    await first.upsertTask(makeTask());
+    expect(await second.listTasks()).toHaveLength(1);
+
+    await second.patchTask('task-1', { enabled: false });
+    await second.upsertTask(makeTask({ id: 'task-2', name: 'Nightly lint' }));
+
+    expect((await first.getTask('task-1'))?.enabled).toBe(false);
+    expect(await first.listTasks()).toHaveLength(2);
+  });
+
+  it('leaves the cache unchanged when a write fails', async () => {
+    const storage = new ScheduleStorage(storePath);
+    await storage.upsertTask(makeTask());
+    const onDisk = await readFile(storePath, 'utf-8');
+
+    // A directory where the backup goes makes the next write fail
+    await mkdir(`${storePath}.bak`);
+    await expect(
+      storage.patchTask('task-1', { name: 'Renamed' })
+    ).rejects.toThrow('Failed to save schedules');
+
+    expect((await storage.getTask('task-1'))?.name).toBe('Weekly deps');
+    expect(await readFile(storePath, 'utf-8')).toBe(onDisk);
+  });
+});
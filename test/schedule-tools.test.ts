@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScheduleStorage } from '../src/storage/schedule-store.js';
+import { CronEngine } from '../src/scheduler/cron-engine.js';
+import { JulesTools } from '../src/mcp/tools.js';
+import type { ActivityCache } from '../src/api/activity-cache.js';
+import type { JulesClient } from '../src/api/jules-client.js';
+import type { SessionWatcher } from '../src/watcher/session-watcher.js';
+import type { ScheduledTask } from '../src/types/schedule.js';
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Weekly deps',
+    cron: '0 9 * * 1',
+    taskPayload: {
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      automationMode: 'AUTO_CREATE_PR',
+    },
+    enabled: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('schedule tools with a run recorded meanwhile', () => {
+  let dir: string;
+  let storage: ScheduleStorage;
+  let scheduler: CronEngine;
+  let tools: JulesTools;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jules-tools-'));
+    storage = new ScheduleStorage(join(dir, 'schedules.json'));
+    scheduler = new CronEngine(storage, {} as JulesClient, () => {});
+    tools = new JulesTools(
+      {} as JulesClient,
+      storage,
+      scheduler,
+      {} as SessionWatcher,
+      {} as ActivityCache
+    );
+
+    // A firing finishes between the tool reading the task and writing it
+    const getTaskByName = storage.getTaskByName.bind(storage);
+    vi.spyOn(storage, 'getTaskByName').mockImplementation(async (name) => {
+      const snapshot = structuredClone(await getTaskByName(name));
+      await storage.updateLastRun(
+        'task-1',
+        '2025-06-02T09:00:00.000Z',
+        'session-9'
+      );
+      return snapshot;
+    });
+  });
+
+  afterEach(async () => {
+    scheduler.shutdown();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const RUN = {
+    lastRun: '2025-06-02T09:00:00.000Z',
+    lastSessionId: 'session-9',
+  };
+
+  it('keeps the run metadata when updating', async () => {
+    await storage.upsertTask(makeTask());
+
+    await tools.updateSchedule({ task_name: 'Weekly deps', prompt: 'Bump' });
+
+    const task = await storage.getTask('task-1');
+    expect(task).toMatchObject(RUN);
+    expect(task?.taskPayload.prompt).toBe('Bump');
+  });
+
+  it('keeps the run metadata when pausing and resuming', async () => {
+    await storage.upsertTask(makeTask());
+
+    await tools.pauseSchedule({ task_name: 'Weekly deps' });
+    expect(await storage.getTask('task-1')).toMatchObject({
+      ...RUN,
+      enabled: false,
+    });
+
+    await storage.patchTask('task-1', { lastRun: undefined });
+    await tools.resumeSchedule({ task_name: 'Weekly deps' });
+    expect(await storage.getTask('task-1')).toMatchObject({
+      ...RUN,
+      enabled: true,
+    });
+  });
+
+  it('keeps the run metadata when importing a manifest', async () => {
+    vi.stubEnv('JULES_VALIDATE_SOURCES', 'false');
+    await storage.upsertTask(makeTask());
+    const tasks = await storage.listTasks();
+    vi.spyOn(storage, 'listTasks').mockImplementation(async () => {
+      const snapshot = structuredClone(tasks);
+      await storage.updateLastRun(
+        'task-1',
+        '2025-06-02T09:00:00.000Z',
+        'session-9'
+      );
+      return snapshot;
+    });
+
+    const result = await tools.importSchedules({
+      manifest: JSON.stringify({
+        schedules: {
+          'Weekly deps': {
+            cron_expression: '0 10 * * 1',
+            prompt: 'Update dependencies',
+            source: 'sources/github/owner/repo',
+          },
+        },
+      }),
+      dry_run: false,
+      sync: false,
+    });
+    expect(JSON.parse(result).message).toMatch(/^Manifest applied: 0 create, 1 update/);
+
+    expect(await storage.getTask('task-1')).toMatchObject({
+      ...RUN,
+      cron: '0 10 * * 1',
+    });
+  });
+});
+
+describe('run_schedule_now', () => {
+  let dir: string;
+  let storage: ScheduleStorage;
+  let scheduler: CronEngine;
+  let tools: JulesTools;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jules-tools-'));
+    storage = new ScheduleStorage(join(dir, 'schedules.json'));
+    scheduler = new CronEngine(storage, {} as JulesClient, () => {});
+    tools = new JulesTools(
+      {} as JulesClient,
+      storage,
+      scheduler,
+      {} as SessionWatcher,
+      {} as ActivityCache
+    );
+    await storage.upsertTask(makeTask());
+  });
+
+  afterEach(async () => {
+    scheduler.shutdown();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports a schedule deleted before the run was admitted', async () => {
+    vi.spyOn(scheduler, 'dispatchTask').mockImplementation(async (task) => {
+      await storage.deleteTask(task.id);
+      return undefined;
+    });
+
+    const result = JSON.parse(
+      await tools.runScheduleNow({ task_name: 'Weekly deps' })
+    );
+
+    expect(result).toMatchObject({ status: 'deleted', scheduleId: 'task-1' });
+  });
+
+  it('reports a run skipped by the overlap policy', async () => {
+    vi.spyOn(scheduler, 'dispatchTask').mockResolvedValue(undefined);
+
+    const result = JSON.parse(
+      await tools.runScheduleNow({ task_name: 'Weekly deps' })
+    );
+
+    expect(result.status).toBe('skipped');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { JulesTools, SearchSessionsSchema } from '../src/mcp/tools.js';
+import type { ActivityCache } from '../src/api/activity-cache.js';
+import type { JulesClient } from '../src/api/jules-client.js';
+import type { CronEngine } from '../src/scheduler/cron-engine.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+import type { SessionWatcher } from '../src/watcher/session-watcher.js';
+import type { Session } from '../src/types/jules-api.js';
+
+function makeSession(id: string, createTime: string): Session {
+  return {
+    name: `sessions/${id}`,
+    id,
+    prompt: `Task ${id}`,
+    sourceContext: { source: 'sources/github/owner/repo' },
+    state: 'COMPLETED',
+    createTime,
+    updateTime: createTime,
+  } as Session;
+}
+
+function setup(sessions: Session[]) {
+  const pulled: string[] = [];
+  const client = {
+    async *iterateSessions() {
+      for (const session of sessions) {
+        pulled.push(session.id);
+        yield session;
+      }
+    },
+  };
+  const storage = {
+    getScheduledSessionIds: async () => new Map(),
+    listTasks: async () => [],
+  };
+  const tools = new JulesTools(
+    client as unknown as JulesClient,
+    storage as unknown as ScheduleRepository,
+    {} as CronEngine,
+    {} as SessionWatcher,
+    {} as ActivityCache
+  );
+  const search = async (args: Record<string, unknown>) =>
+    JSON.parse(await tools.searchSessions(SearchSessionsSchema.parse(args)));
+  return { search, pulled };
+}
+
+describe('search_sessions', () => {
+  it("doesn't rely on sessions being listed newest first", async () => {
+    const { search } = setup([
+      makeSession('new', '2025-06-03T00:00:00Z'),
+      makeSession('old', '2025-05-01T00:00:00Z'),
+      makeSession('newer', '2025-06-04T00:00:00Z'),
+    ]);
+
+    const result = await search({ created_after: '2025-06-01T00:00:00Z' });
+
+    expect(result.sessions.map((s: { id: string }) => s.id)).toEqual([
+      'new',
+      'newer',
+    ]);
+    expect(result.scanned).toBe(3);
+    expect(result.complete).toBe(true);
+  });
+
+  it('stops reading sessions once max_results is reached', async () => {
+    const { search, pulled } = setup([
+      makeSession('a', '2025-06-03T00:00:00Z'),
+      makeSession('b', '2025-06-02T00:00:00Z'),
+      makeSession('c', '2025-06-01T00:00:00Z'),
+    ]);
+
+    const result = await search({ max_results: 2 });
+
+    expect(result.count).toBe(2);
+    expect(result.complete).toBe(false);
+    expect(pulled).toEqual(['a', 'b']);
+  });
+});
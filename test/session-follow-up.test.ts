@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SessionFollowUp } from '../src/watcher/session-follow-up.js';
+import type { PlanApprovalEngine } from '../src/approval/plan-approval.js';
+import type { CronEngine } from '../src/scheduler/cron-engine.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+import type { SessionWatcher } from '../src/watcher/session-watcher.js';
+import type { ScheduleRunRecord } from '../src/types/schedule.js';
+
+function makeRun(overrides: Partial<ScheduleRunRecord>): ScheduleRunRecord {
+  return {
+    id: 'run-1',
+    scheduleId: 'task-1',
+    triggeredAt: new Date().toISOString(),
+    finishedAt: new Date().toISOString(),
+    attempts: 1,
+    status: 'success',
+    sessionId: 'session-1',
+    sessionState: 'IN_PROGRESS',
+    ...overrides,
+  };
+}
+
+function setup(runs: ScheduleRunRecord[] = []) {
+  const storage = {
+    listRecentRuns: async () => runs,
+    updateRunRecord: vi.fn(async () => true),
+    getTask: async () => ({ approvalPolicy: { maxFiles: 5 } }),
+  };
+  const scheduler = { processQueue: vi.fn(async () => {}) };
+  const watched = new Set<string>();
+  const watcher = {
+    watch: vi.fn((sessionId: string) => watched.add(sessionId)),
+    isWatching: (sessionId: string) => watched.has(sessionId),
+  };
+  const decision = { outcome: 'approved' };
+  const approvalEngine = {
+    review: vi.fn(async () => decision),
+    forget: vi.fn(),
+  };
+  const followUp = new SessionFollowUp(
+    storage as unknown as ScheduleRepository,
+    scheduler as unknown as CronEngine,
+    watcher as unknown as SessionWatcher,
+    approvalEngine as unknown as PlanApprovalEngine
+  );
+  return { followUp, storage, scheduler, watcher, approvalEngine, decision };
+}
+
+const context = { scheduleId: 'task-1', runId: 'run-1' };
+
+describe('SessionFollowUp', () => {
+  it("applies the schedule's approval policy when a plan is ready", async () => {
+    const { followUp, storage, approvalEngine, decision } = setup();
+
+    await followUp.handle({
+      type: 'plan_ready',
+      sessionId: 'session-1',
+      state: 'AWAITING_PLAN_APPROVAL',
+      context,
+    });
+
+    expect(approvalEngine.review).toHaveBeenCalledWith('session-1', {
+      maxFiles: 5,
+    });
+    expect(storage.updateRunRecord).toHaveBeenCalledWith('task-1', 'run-1', {
+      approval: decision,
+    });
+  });
+
+  it('records the final state and starts queued runs when a session finishes', async () => {
+    const { followUp, storage, scheduler, approvalEngine } = setup();
+
+    await followUp.handle({
+      type: 'finished',
+      sessionId: 'session-1',
+      state: 'COMPLETED',
+      success: true,
+      context,
+    });
+
+    expect(storage.updateRunRecord).toHaveBeenCalledWith('task-1', 'run-1', {
+      sessionState: 'COMPLETED',
+    });
+    expect(scheduler.processQueue).toHaveBeenCalled();
+    expect(approvalEngine.forget).toHaveBeenCalledWith('session-1');
+  });
+
+  it('watches unfinished sessions of recent runs again', async () => {
+    const { followUp, watcher } = setup([
+      makeRun({}),
+      makeRun({ id: 'run-2', sessionId: 'session-2', sessionState: 'COMPLETED' }),
+      makeRun({
+        id: 'run-3',
+        sessionId: 'session-3',
+        triggeredAt: '2020-01-01T00:00:00.000Z',
+      }),
+      makeRun({ id: 'run-4', sessionId: undefined, status: 'failed' }),
+    ]);
+
+    await followUp.watchUnfinishedRuns();
+
+    expect(watcher.watch).toHaveBeenCalledTimes(1);
+    expect(watcher.watch).toHaveBeenCalledWith('session-1', context);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { JulesAPIError, type JulesClient } from '../src/api/jules-client.js';
+import { preflightSource } from '../src/api/source-preflight.js';
+import type { Source } from '../src/types/jules-api.js';
+
+const SOURCE = 'sources/github/owner/my-rpeo';
+
+function makeClient(error: JulesAPIError) {
+  return {
+    getSource: vi.fn(async () => {
+      throw error;
+    }),
+    async *iterateSources(): AsyncGenerator<Source> {
+      yield { name: 'sources/github/owner/my-repo' } as Source;
+    },
+  } as unknown as JulesClient;
+}
+
+describe('preflightSource', () => {
+  it('rejects a source the API reports as missing, with suggestions', async () => {
+    const client = makeClient(new JulesAPIError('Not found', 404));
+
+    await expect(preflightSource(client, SOURCE, () => {})).rejects.toThrow(
+      'Did you mean sources/github/owner/my-repo?'
+    );
+  });
+
+  it('warns and continues when the check fails for another reason', async () => {
+    const client = makeClient(new JulesAPIError('Unavailable', 503));
+    const logger = vi.fn();
+
+    await expect(preflightSource(client, SOURCE, logger)).resolves.toBe(
+      undefined
+    );
+    expect(logger).toHaveBeenCalledWith(
+      expect.stringContaining(`Could not confirm ${SOURCE} is connected`)
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { join, resolve } from 'path';
+import { createScheduleRepository } from '../src/storage/factory.js';
+import { ScheduleStorage } from '../src/storage/schedule-store.js';
+import { SqliteScheduleStorage } from '../src/storage/sqlite-store.js';
+
+describe('createScheduleRepository', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to schedules.json in the storage directory', () => {
+    vi.stubEnv('JULES_STORAGE', '');
+    vi.stubEnv('JULES_STORAGE_DIR', '/tmp/jules-store');
+
+    const storage = createScheduleRepository();
+
+    expect(storage).toBeInstanceOf(ScheduleStorage);
+    expect(storage.description).toBe(
+      `json:${join(resolve('/tmp/jules-store'), 'schedules.json')}`
+    );
+  });
+
+  it('reads the spec from JULES_STORAGE', () => {
+    vi.stubEnv('JULES_STORAGE', 'sqlite');
+    vi.stubEnv('JULES_STORAGE_DIR', '/tmp/jules-store');
+
+    const storage = createScheduleRepository();
+
+    expect(storage).toBeInstanceOf(SqliteScheduleStorage);
+    expect(storage.description).toBe(
+      `sqlite:${join(resolve('/tmp/jules-store'), 'schedules.db')}`
+    );
+  });
+
+  it('accepts a path after json:', () => {
+    const storage = createScheduleRepository('json:data/schedules.json');
+
+    expect(storage).toBeInstanceOf(ScheduleStorage);
+    expect(storage.description).toBe(`json:${resolve('data/schedules.json')}`);
+  });
+
+  it('accepts a path after sqlite:', () => {
+    const storage = createScheduleRepository('sqlite:/var/lib/jules/db.sqlite');
+
+    expect(storage).toBeInstanceOf(SqliteScheduleStorage);
+    expect(storage.description).toBe('sqlite:/var/lib/jules/db.sqlite');
+  });
+
+  it.each(['postgres', 'postgres:/tmp/db', 'JSON', ':schedules.json'])(
+    'rejects the unknown backend in %j',
+    (spec) => {
+      expect(() => createScheduleRepository(spec)).toThrow(
+        'in JULES_STORAGE (expected "json" or "sqlite")'
+      );
+    }
+  );
+});
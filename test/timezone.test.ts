@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CronEngine } from '../src/scheduler/cron-engine.js';
+import { ScheduleTaskSchema } from '../src/mcp/tools.js';
+import { formatInTimezone, isValidTimezone } from '../src/utils/timezone.js';
+import type { JulesClient } from '../src/api/jules-client.js';
+import type { ScheduleRepository } from '../src/storage/repository.js';
+import type { ScheduledTask } from '../src/types/schedule.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeTask(overrides: Partial<ScheduledTask> = {}): ScheduledTask {
+  return {
+    id: 'task-1',
+    name: 'Daily deps',
+    cron: '0 9 * * *',
+    taskPayload: {
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      automationMode: 'AUTO_CREATE_PR',
+    },
+    enabled: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    timezone: 'America/New_York',
+    ...overrides,
+  };
+}
+
+describe('formatInTimezone', () => {
+  it('uses the standard offset before spring-forward and daylight after', () => {
+    expect(
+      formatInTimezone(new Date('2025-03-09T06:59:59Z'), 'America/New_York')
+    ).toBe('2025-03-09T01:59:59-05:00');
+    expect(
+      formatInTimezone(new Date('2025-03-09T07:00:00Z'), 'America/New_York')
+    ).toBe('2025-03-09T03:00:00-04:00');
+  });
+
+  it('renders the repeated hour at fall-back with both offsets', () => {
+    expect(
+      formatInTimezone(new Date('2025-11-02T05:30:00Z'), 'America/New_York')
+    ).toBe('2025-11-02T01:30:00-04:00');
+    expect(
+      formatInTimezone(new Date('2025-11-02T06:30:00Z'), 'America/New_York')
+    ).toBe('2025-11-02T01:30:00-05:00');
+  });
+
+  it('renders UTC with a Z suffix', () => {
+    expect(formatInTimezone(new Date('2025-06-01T12:00:00Z'), 'UTC')).toBe(
+      '2025-06-01T12:00:00Z'
+    );
+  });
+});
+
+describe('CronEngine across DST transitions', () => {
+  let engine: CronEngine;
+  let fired: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const storage = {
+      getTask: async () => makeTask(),
+    } as unknown as ScheduleRepository;
+    engine = new CronEngine(storage, {} as JulesClient, () => {});
+    fired = [];
+    vi.spyOn(engine, 'dispatchTask').mockImplementation(async () => {
+      fired.push(new Date().toISOString());
+      return undefined;
+    });
+  });
+
+  afterEach(() => {
+    engine.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('keeps 9 AM local time when clocks spring forward', async () => {
+    vi.setSystemTime(new Date('2025-03-07T12:00:00Z'));
+    const task = makeTask();
+    engine.scheduleTask(task);
+
+    expect(engine.describeNextInvocation(task)).toEqual({
+      utc: '2025-03-07T14:00:00.000Z',
+      local: '2025-03-07T09:00:00-05:00',
+      timezone: 'America/New_York',
+    });
+
+    await vi.advanceTimersByTimeAsync(72 * HOUR);
+
+    expect(fired).toEqual([
+      '2025-03-07T14:00:00.000Z',
+      '2025-03-08T14:00:00.000Z',
+      '2025-03-09T13:00:00.000Z',
+    ]);
+    expect(engine.describeNextInvocation(task)?.local).toBe(
+      '2025-03-10T09:00:00-04:00'
+    );
+  });
+
+  it('keeps 9 AM local time when clocks fall back', async () => {
+    vi.setSystemTime(new Date('2025-10-31T12:00:00Z'));
+    const task = makeTask();
+    engine.scheduleTask(task);
+
+    await vi.advanceTimersByTimeAsync(72 * HOUR);
+
+    expect(fired).toEqual([
+      '2025-10-31T13:00:00.000Z',
+      '2025-11-01T13:00:00.000Z',
+      '2025-11-02T14:00:00.000Z',
+    ]);
+    expect(engine.describeNextInvocation(task)).toEqual({
+      utc: '2025-11-03T14:00:00.000Z',
+      local: '2025-11-03T09:00:00-05:00',
+      timezone: 'America/New_York',
+    });
+  });
+
+  it('fires a task once during the repeated hour at fall-back', async () => {
+    vi.setSystemTime(new Date('2025-11-02T04:00:00Z'));
+    engine.scheduleTask(makeTask({ cron: '30 1 * * *' }));
+
+    await vi.advanceTimersByTimeAsync(4 * HOUR);
+
+    expect(fired).toHaveLength(1);
+  });
+
+  it('describes unarmed tasks from their cron expression in their zone', () => {
+    vi.setSystemTime(new Date('2025-03-08T20:00:00Z'));
+
+    expect(
+      engine.describeNextInvocation(makeTask({ timezone: 'Europe/Berlin' }))
+    ).toEqual({
+      utc: '2025-03-09T08:00:00.000Z',
+      local: '2025-03-09T09:00:00+01:00',
+      timezone: 'Europe/Berlin',
+    });
+  });
+});
+
+describe('timezone validation', () => {
+  it('recognizes IANA zones only', () => {
+    expect(isValidTimezone('America/New_York')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('rejects schedules in unknown zones', () => {
+    const result = ScheduleTaskSchema.safeParse({
+      task_name: 'Daily deps',
+      cron_expression: '0 9 * * *',
+      prompt: 'Update dependencies',
+      source: 'sources/github/owner/repo',
+      timezone: 'Mars/Olympus_Mons',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(
+      'Unknown IANA timezone: Mars/Olympus_Mons'
+    );
+  });
+
+  it('rejects cron validation in unknown zones', () => {
+    expect(
+      CronEngine.validateCronExpression('0 9 * * *', 'America/New_York')
+    ).toBe(true);
+    expect(
+      CronEngine.validateCronExpression('0 9 * * *', 'Mars/Olympus_Mons')
+    ).toBe(false);
+  });
+});